@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import minimatch from 'minimatch';
+import { ArchitectureRule, GraphData, RulesConfig, RuleViolation } from './types';
+import { linkEndId } from './CycleDetector';
+
+/**
+ * Name of the rules file looked up in every scanned root.
+ */
+export const rulesFileName = '.constellation.json';
+
+/**
+ * The rules file of one root. Its patterns are relative to that root, so
+ * they are matched against the ids of the root's nodes with `prefix`
+ * (the root name when several roots are scanned) removed.
+ */
+export interface RootRules {
+    rootPath: string;
+    prefix: string;
+    config: RulesConfig;
+}
+
+/**
+ * Reads the rules files of the given roots. Roots without one contribute
+ * nothing. `prefixes` are the node id prefixes of the roots, in the same order.
+ * @returns Undefined when no root has a rules file.
+ * @throws When a rules file is invalid.
+ */
+export function loadRules(rootPaths: string[], prefixes: string[] = []): RootRules[] | undefined {
+    const loaded: RootRules[] = [];
+    rootPaths.forEach((rootPath, index) => {
+        const filePath = path.join(rootPath, rulesFileName);
+        if (fs.existsSync(filePath)) {
+            loaded.push({ rootPath, prefix: prefixes[index] || '', config: parseRules(fs.readFileSync(filePath, 'utf-8'), filePath) });
+        }
+    });
+    return loaded.length > 0 ? loaded : undefined;
+}
+
+/**
+ * Parses and validates the contents of a rules file.
+ * @throws When the JSON or a rule is invalid; the message names the file.
+ */
+export function parseRules(content: string, filePath: string): RulesConfig {
+    let config: RulesConfig;
+    try {
+        config = JSON.parse(content);
+    } catch (error) {
+        throw invalid(filePath, error instanceof Error ? error.message : String(error));
+    }
+
+    const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+    if (!config || typeof config !== 'object' || (config.rules !== undefined && !Array.isArray(config.rules))) {
+        throw invalid(filePath, 'expected an object with a "rules" array');
+    }
+    if (config.internal !== undefined && !isStringList(config.internal)) {
+        throw invalid(filePath, '"internal" must be a list of directory names');
+    }
+    (config.rules || []).forEach((rule, index) => {
+        const from = typeof rule?.from === 'string' ? [rule.from] : rule?.from;
+        if (!isStringList(from) || (!rule.allow && !rule.deny)) {
+            throw invalid(filePath, `rule ${index + 1} needs "from" and "allow" or "deny" patterns`);
+        }
+        if ((rule.allow && !isStringList(rule.allow)) || (rule.deny && !isStringList(rule.deny))) {
+            throw invalid(filePath, `rule ${index + 1}: "allow" and "deny" must be lists of patterns`);
+        }
+    });
+    return config;
+}
+
+/**
+ * Returns every link of the graph that breaks a rule of any root.
+ */
+export function checkRootRules(data: GraphData, rules: RootRules[]): RuleViolation[] {
+    return rules.flatMap(root => checkRules(data, root.config, root.prefix));
+}
+
+/**
+ * Returns every link of the graph that breaks a rule. A link breaking
+ * several rules is reported once per rule. With a `prefix`, rules only
+ * apply to imports made by that root's files and `internal` only to its
+ * directories.
+ */
+export function checkRules(data: GraphData, config: RulesConfig, prefix = ''): RuleViolation[] {
+    const violations: RuleViolation[] = [];
+    const rules = (config.rules || []).map((rule, index) => compileRule(rule, index));
+    const internalDirs = new Set(config.internal || []);
+    const rootPattern = prefix ? toPattern(prefix) + '/' : '';
+    const inRoot = (id: string) => id.startsWith(rootPattern);
+
+    for (const link of data.links) {
+        const source = linkEndId(link.source);
+        const target = linkEndId(link.target);
+        const sourcePattern = toPattern(source);
+        const targetPattern = toPattern(target);
+        // Files of other roots keep their root name, so root-relative patterns never match them
+        const from = inRoot(sourcePattern) ? sourcePattern.slice(rootPattern.length) : undefined;
+        const to = inRoot(targetPattern) ? targetPattern.slice(rootPattern.length) : targetPattern;
+        const report = (rule: string, message: string, severity: 'error' | 'warning' = 'warning') => {
+            violations.push({ source, target, rule, message, severity, line: link.line, column: link.column, endLine: link.endLine, endColumn: link.endColumn });
+        };
+
+        if (from !== undefined) {
+            for (const rule of rules) {
+                if (rule.from(from) && (rule.deny(to) || !rule.allow(to))) {
+                    report(rule.name, rule.message || `${sourcePattern} must not import ${targetPattern} (rule "${rule.name}")`, rule.severity);
+                }
+            }
+        }
+
+        const owner = inRoot(targetPattern) ? findInternalOwner(to, internalDirs) : undefined;
+        if (owner !== undefined && (from === undefined || !(owner === '' || from.startsWith(owner + '/')))) {
+            report('internal', `${targetPattern} is internal to ${toPattern(path.join(prefix, owner))} and cannot be imported from ${sourcePattern}`);
+        }
+    }
+    return violations;
+}
+
+function invalid(filePath: string, message: string): Error {
+    return new Error(`${filePath}: ${message}`);
+}
+
+interface CompiledRule {
+    name: string;
+    from: (id: string) => boolean;
+    allow: (id: string) => boolean;
+    deny: (id: string) => boolean;
+    message?: string;
+    severity?: 'error' | 'warning';
+}
+
+function compileRule(rule: ArchitectureRule, index: number): CompiledRule {
+    const matcher = (patterns: string[] | undefined, empty: boolean) => {
+        if (!patterns) {
+            return () => empty;
+        }
+        const compiled = patterns.map(pattern => new minimatch.Minimatch(pattern, { dot: true }));
+        return (id: string) => compiled.some(pattern => pattern.match(id));
+    };
+    return {
+        name: rule.name || `rule ${index + 1}`,
+        from: matcher(typeof rule.from === 'string' ? [rule.from] : rule.from, false),
+        allow: matcher(rule.allow, true),
+        deny: matcher(rule.deny, false),
+        message: rule.message,
+        severity: rule.severity
+    };
+}
+
+/**
+ * Node ids use the platform separator; patterns are written with slashes.
+ */
+function toPattern(id: string): string {
+    return id.split(path.sep).join('/');
+}
+
+/**
+ * Returns the parent of the outermost internal directory on a path, or
+ * undefined when the file is not inside one.
+ */
+function findInternalOwner(id: string, internalDirs: Set<string>): string | undefined {
+    const segments = id.split('/');
+    for (let i = 0; i < segments.length - 1; i++) {
+        if (internalDirs.has(segments[i])) {
+            return segments.slice(0, i).join('/');
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,150 @@
+import { Cycle, GraphData, Link, Node } from './types';
+
+/**
+ * Returns the id of a link endpoint, whether it is still an id or has been
+ * replaced by its node object.
+ */
+export function linkEndId(end: string | Node): string {
+    return typeof end === 'object' ? end.id : end;
+}
+
+/**
+ * Finds every import cycle in the graph using Tarjan's strongly connected
+ * components algorithm. Components with a single file only count when the
+ * file imports itself. Cycles are returned largest first.
+ */
+export function findCycles(data: GraphData): Cycle[] {
+    const components = findStronglyConnectedComponents(buildAdjacency(data));
+
+    const cycles: Cycle[] = [];
+    for (const component of components) {
+        const members = new Set(component);
+        const links = data.links.filter(link =>
+            members.has(linkEndId(link.source)) && members.has(linkEndId(link.target)));
+        if (component.length > 1 || links.length > 0) {
+            cycles.push({ nodes: component.sort(), links });
+        }
+    }
+
+    return cycles.sort((a, b) => b.nodes.length - a.nodes.length);
+}
+
+/**
+ * Maps every node id to the ids it links to. Links to unknown nodes are dropped.
+ */
+export function buildAdjacency(data: GraphData): Map<string, string[]> {
+    const adjacency = new Map<string, string[]>();
+    for (const node of data.nodes) {
+        adjacency.set(node.id, []);
+    }
+    for (const link of data.links) {
+        const source = linkEndId(link.source);
+        const target = linkEndId(link.target);
+        if (adjacency.has(source) && adjacency.has(target)) {
+            adjacency.get(source)!.push(target);
+        }
+    }
+    return adjacency;
+}
+
+/**
+ * Tarjan's algorithm. Components are returned in reverse topological order:
+ * every component comes after the components it links to.
+ */
+export function findStronglyConnectedComponents(adjacency: Map<string, string[]>): string[][] {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let counter = 0;
+
+    // Iterative version of the recursive algorithm so deep import chains cannot overflow the call stack.
+    for (const root of adjacency.keys()) {
+        if (index.has(root)) { continue; }
+
+        const work: { id: string; next: number }[] = [{ id: root, next: 0 }];
+        index.set(root, counter);
+        lowLink.set(root, counter++);
+        stack.push(root);
+        onStack.add(root);
+
+        while (work.length > 0) {
+            const frame = work[work.length - 1];
+            const successors = adjacency.get(frame.id)!;
+
+            if (frame.next < successors.length) {
+                const successor = successors[frame.next++];
+                if (!index.has(successor)) {
+                    index.set(successor, counter);
+                    lowLink.set(successor, counter++);
+                    stack.push(successor);
+                    onStack.add(successor);
+                    work.push({ id: successor, next: 0 });
+                } else if (onStack.has(successor)) {
+                    lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(successor)!));
+                }
+                continue;
+            }
+
+            work.pop();
+            if (work.length > 0) {
+                const parent = work[work.length - 1].id;
+                lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.id)!));
+            }
+
+            if (lowLink.get(frame.id) === index.get(frame.id)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== frame.id);
+                components.push(component);
+            }
+        }
+    }
+
+
+    return components;
+}
+
+/**
+ * Returns the shortest loop through `link` inside its cycle, as file ids
+ * starting and ending with the link's source.
+ */
+export function findCyclePath(cycle: Cycle, link: Link): string[] {
+    const source = linkEndId(link.source);
+    const target = linkEndId(link.target);
+    if (source === target) {
+        return [source, source];
+    }
+
+    const previous = new Map<string, string>();
+    const queue = [target];
+    previous.set(target, target);
+
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (current === source) {
+            const path = [source];
+            let step = source;
+            while (step !== target) {
+                step = previous.get(step)!;
+                path.unshift(step);
+            }
+            return [source, ...path];
+        }
+        for (const edge of cycle.links) {
+            const from = linkEndId(edge.source);
+            const to = linkEndId(edge.target);
+            if (from === current && !previous.has(to)) {
+                previous.set(to, current);
+                queue.push(to);
+            }
+        }
+    }
+
+    return [source, target];
+}
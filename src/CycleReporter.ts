@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import { ProjectScanner } from './ProjectScanner';
+import { findCycles, findCyclePath, linkEndId } from './CycleDetector';
+import { createWorkspaceScanner } from './WorkspaceRoots';
+import { Cycle, Link } from './types';
+
+/**
+ * The editor range of an import statement. Links without an end, such as
+ * those of third-party analyzers, get an empty range at their start.
+ */
+export function importRange(position: Pick<Link, 'line' | 'column' | 'endLine' | 'endColumn'>): vscode.Range {
+    const start = new vscode.Position(position.line || 0, position.column || 0);
+    if (position.endLine === undefined || position.endColumn === undefined) {
+        return new vscode.Range(start, start);
+    }
+    return new vscode.Range(start, new vscode.Position(position.endLine, position.endColumn));
+}
+
+/**
+ * Publishes import cycles to the Problems panel, one diagnostic per import
+ * statement that takes part in a cycle.
+ */
+export class CycleReporter implements vscode.Disposable {
+    private readonly _diagnostics: vscode.DiagnosticCollection;
+    private readonly _context: vscode.ExtensionContext;
+
+    constructor(context: vscode.ExtensionContext) {
+        this._context = context;
+        this._diagnostics = vscode.languages.createDiagnosticCollection('code-constellation-cycles');
+    }
+
+    /**
+     * Scans the workspace, reports every cycle and tells the user how many were found.
+     */
+    public async findCircularDependencies() {
+        const scanner = createWorkspaceScanner(this._context);
+        if (!scanner) {
+            vscode.window.showErrorMessage('No workspace folder open');
+            return;
+        }
+
+        const cycles = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: "Looking for circular dependencies...",
+            cancellable: false
+        }, async () => findCycles(await scanner.scan()));
+
+        this.report(scanner, cycles);
+
+        if (cycles.length === 0) {
+            vscode.window.showInformationMessage('No circular dependencies found.');
+            return;
+        }
+
+        const action = await vscode.window.showWarningMessage(
+            `Found ${cycles.length} circular ${cycles.length === 1 ? 'dependency' : 'dependencies'}.`,
+            'Show Problems'
+        );
+        if (action === 'Show Problems') {
+            vscode.commands.executeCommand('workbench.actions.view.problems');
+        }
+    }
+
+    /**
+     * Replaces the published diagnostics with the given cycles.
+     */
+    public report(scanner: ProjectScanner, cycles: Cycle[]) {
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+
+        for (const cycle of cycles) {
+            for (const link of cycle.links) {
+                const source = linkEndId(link.source);
+                const loop = findCyclePath(cycle, link).join(' → ');
+                const diagnostic = new vscode.Diagnostic(
+                    importRange(link),
+                    `Circular dependency: ${loop}`,
+                    vscode.DiagnosticSeverity.Warning
+                );
+                diagnostic.source = 'Code Constellation';
+
+                const diagnostics = byFile.get(source) || [];
+                diagnostics.push(diagnostic);
+                byFile.set(source, diagnostics);
+            }
+        }
+
+        this._diagnostics.clear();
+        for (const [id, diagnostics] of byFile) {
+            const filePath = scanner.getFilePath(id);
+            if (filePath) {
+                this._diagnostics.set(vscode.Uri.file(filePath), diagnostics);
+            }
+        }
+    }
+
+    public dispose() {
+        this._diagnostics.dispose();
+    }
+}
@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import { ExportFormat, exportFormats, serializeGraph } from './GraphExporter';
+import { GraphData } from './types';
+
+/**
+ * Asks where to save a file and writes it.
+ * @returns The chosen location, or undefined when the dialog was cancelled.
+ */
+export async function saveWithDialog(
+    content: string | Uint8Array,
+    fileName: string,
+    filters: Record<string, string[]>
+): Promise<vscode.Uri | undefined> {
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+        filters: filters,
+        saveLabel: 'Export'
+    });
+    if (!uri) {
+        return undefined;
+    }
+
+    const bytes = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+    await vscode.workspace.fs.writeFile(uri, bytes);
+    return uri;
+}
+
+/**
+ * Lets the user pick an export format and destination, then writes the graph.
+ */
+export async function exportGraph(data: GraphData) {
+    const pick = await vscode.window.showQuickPick(
+        (Object.keys(exportFormats) as ExportFormat[]).map(format => ({
+            label: exportFormats[format].label,
+            description: '.' + exportFormats[format].extension,
+            format
+        })),
+        { placeHolder: 'Export format' }
+    );
+    if (!pick) {
+        return;
+    }
+
+    const { extension, label } = exportFormats[pick.format];
+    const uri = await saveWithDialog(serializeGraph(data, pick.format), 'constellation.' + extension, { [label]: [extension] });
+    if (uri) {
+        vscode.window.showInformationMessage(
+            `Exported ${data.nodes.length} files and ${data.links.length} links to ${vscode.workspace.asRelativePath(uri)}.`
+        );
+    }
+}
+
+/**
+ * What the webview should capture for a snapshot.
+ */
+export interface SnapshotOptions {
+    format: 'png' | 'svg';
+    area: 'view' | 'graph';
+    /** Pixel size of a full graph PNG. */
+    width?: number;
+    height?: number;
+}
+
+const snapshotChoices: { label: string; description: string; options: SnapshotOptions }[] = [
+    { label: 'PNG: Current View', description: 'What is on screen now', options: { format: 'png', area: 'view' } },
+    { label: 'PNG: Full Graph', description: '1920 × 1080', options: { format: 'png', area: 'graph', width: 1920, height: 1080 } },
+    { label: 'PNG: Full Graph', description: '3840 × 2160', options: { format: 'png', area: 'graph', width: 3840, height: 2160 } },
+    { label: 'SVG: Full Graph', description: 'Vector shapes and labels', options: { format: 'svg', area: 'graph' } }
+];
+
+/**
+ * Asks what kind of snapshot to take.
+ */
+export async function pickSnapshotOptions(): Promise<SnapshotOptions | undefined> {
+    const pick = await vscode.window.showQuickPick(snapshotChoices, { placeHolder: 'Snapshot' });
+    return pick?.options;
+}
+
+/**
+ * Saves a snapshot rendered by the webview: a PNG data URL or SVG markup.
+ */
+export async function saveSnapshot(format: SnapshotOptions['format'], data: string) {
+    const content = format === 'png' ? Buffer.from(data.slice(data.indexOf(',') + 1), 'base64') : data;
+    const uri = await saveWithDialog(content, 'constellation.' + format, { [format.toUpperCase() + ' Image']: [format] });
+    if (uri) {
+        vscode.window.showInformationMessage(`Saved snapshot to ${vscode.workspace.asRelativePath(uri)}.`);
+    }
+}
@@ -0,0 +1,103 @@
+import * as path from 'path';
+import { GraphData, Link, Node } from './types';
+import { linkEndId } from './CycleDetector';
+import { kindPrecedence } from './ProjectScanner';
+
+/**
+ * Node type of the folder nodes produced by aggregateByFolder.
+ */
+export const folderType = 'folder';
+
+/**
+ * Collapses files into folder nodes. Every folder not listed in `expanded`
+ * stands for all files below it; a folder is only visible when its parent
+ * is expanded, so initially the graph shows top-level folders and files.
+ * Folder nodes are sized by the bytes they contain and links between two
+ * visible nodes are merged, with `weight` counting the underlying imports
+ * and `kind` the strongest of them. Links inside a folder disappear.
+ * @param data The file graph; node ids are relative paths.
+ * @param expanded Ids of the folders shown as their contents.
+ */
+export function aggregateByFolder(data: GraphData, expanded: Set<string>): GraphData {
+    const visibleIds = new Map<string, string>();
+    const folders = new Map<string, Node>();
+    const nodes: Node[] = [];
+
+    for (const node of data.nodes) {
+        const folderId = findCollapsedFolder(node.id, expanded);
+        visibleIds.set(node.id, folderId || node.id);
+        if (!folderId) {
+            nodes.push(node);
+            continue;
+        }
+
+        let folder = folders.get(folderId);
+        if (!folder) {
+            folder = {
+                id: folderId,
+                name: path.basename(folderId) + '/',
+                type: folderType,
+                size: 0,
+                preview: '',
+                root: node.root,
+                fileCount: 0
+            };
+            folders.set(folderId, folder);
+            nodes.push(folder);
+        }
+        folder.size += node.size;
+        folder.fileCount!++;
+    }
+
+    for (const folder of folders.values()) {
+        folder.preview = `${folder.fileCount} ${folder.fileCount === 1 ? 'file' : 'files'}`;
+    }
+
+    const links = new Map<string, Link>();
+    for (const link of data.links) {
+        const source = visibleIds.get(linkEndId(link.source));
+        const target = visibleIds.get(linkEndId(link.target));
+        if (!source || !target || source === target) {
+            continue;
+        }
+
+        const key = source + '\0' + target;
+        const existing = links.get(key);
+        if (!existing) {
+            // An import location only makes sense when the source is still a file
+            const fromFile = !folders.has(source);
+            links.set(key, {
+                source,
+                target,
+                kind: link.kind,
+                weight: link.weight,
+                line: fromFile ? link.line : undefined,
+                column: fromFile ? link.column : undefined,
+                endLine: fromFile ? link.endLine : undefined,
+                endColumn: fromFile ? link.endColumn : undefined
+            });
+            continue;
+        }
+        existing.weight += link.weight;
+        if (kindPrecedence.indexOf(link.kind) < kindPrecedence.indexOf(existing.kind)) {
+            existing.kind = link.kind;
+        }
+    }
+
+    return { nodes, links: [...links.values()] };
+}
+
+/**
+ * Returns the outermost folder of a file that is not expanded, or undefined
+ * when every folder above it is expanded.
+ */
+function findCollapsedFolder(id: string, expanded: Set<string>): string | undefined {
+    const segments = id.split(path.sep);
+    for (let i = 1; i < segments.length; i++) {
+        const folder = segments.slice(0, i).join(path.sep);
+        if (!expanded.has(folder)) {
+            return folder;
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,167 @@
+import { execFile } from 'child_process';
+import * as path from 'path';
+import { promisify } from 'util';
+import { GitFileInfo, GitOverlay } from './types';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Branches tried, in order, when no base branch is configured.
+ */
+const defaultBaseBranches = ['main', 'master', 'origin/main', 'origin/master'];
+
+/**
+ * Commits read for churn and last-change information. Files untouched in
+ * this many commits get no author.
+ */
+const maxCommits = 5000;
+
+export interface GitOverlayOptions {
+    /** Churn window in days. */
+    days: number;
+    /** Branch to compare with; `main` or `master` when omitted. */
+    baseBranch?: string;
+}
+
+/**
+ * Runs git in `cwd` and returns its standard output. Paths are not quoted.
+ */
+async function git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', ['-c', 'core.quotepath=off', ...args], { cwd, maxBuffer: 64 * 1024 * 1024 });
+    return stdout;
+}
+
+/**
+ * Reads churn, authorship, branch and working tree changes for the files
+ * below each root from the local `git` binary. Roots outside a repository
+ * are skipped.
+ * @param toId Maps an absolute path to its node id, or undefined when the file is not in the graph.
+ * @throws When none of the roots is inside a git repository or git cannot be run.
+ */
+export async function loadGitOverlay(
+    rootPaths: string[],
+    toId: (fullPath: string) => string | undefined,
+    options: GitOverlayOptions
+): Promise<GitOverlay> {
+    const overlay: GitOverlay = { files: {} };
+    let repositories = 0;
+    let lastError: unknown;
+
+    for (const rootPath of rootPaths) {
+        let prefix: string;
+        try {
+            prefix = (await git(rootPath, ['rev-parse', '--show-prefix'])).trim();
+        } catch (error) {
+            lastError = error;
+            continue;
+        }
+        repositories++;
+
+        // Git reports paths relative to the repository; keep those below this root
+        const infoFor = (gitPath: string): GitFileInfo | undefined => {
+            if (!gitPath.startsWith(prefix)) {
+                return undefined;
+            }
+            const id = toId(path.join(rootPath, gitPath.slice(prefix.length)));
+            if (!id) {
+                return undefined;
+            }
+            return overlay.files[id] = overlay.files[id] || { churn: 0, changedOnBranch: false, changedInWorkingTree: false };
+        };
+
+        await readHistory(rootPath, options.days, infoFor);
+
+        const baseRef = await findBaseRef(rootPath, options.baseBranch);
+        if (baseRef) {
+            overlay.baseRef = overlay.baseRef || baseRef;
+            const changed = await git(rootPath, ['diff', '--name-only', '--no-renames', baseRef + '...HEAD', '--', '.']);
+            splitLines(changed).forEach(gitPath => {
+                const info = infoFor(gitPath);
+                if (info) {
+                    info.changedOnBranch = true;
+                }
+            });
+        }
+
+        const status = await git(rootPath, ['status', '--porcelain', '-z', '--untracked-files=all', '--', '.']);
+        parseStatus(status).forEach(gitPath => {
+            const info = infoFor(gitPath);
+            if (info) {
+                info.changedInWorkingTree = true;
+            }
+        });
+    }
+
+    if (repositories === 0) {
+        throw lastError instanceof Error && /ENOENT/.test(lastError.message)
+            ? new Error('Git is not installed or not on the PATH.')
+            : new Error('The workspace is not inside a git repository.');
+    }
+    return overlay;
+}
+
+/**
+ * Walks the recent log once: the first commit seen for a file is its last
+ * change, and commits inside the window add to its churn.
+ */
+async function readHistory(cwd: string, days: number, infoFor: (gitPath: string) => GitFileInfo | undefined) {
+    const since = Date.now() / 1000 - days * 24 * 60 * 60;
+    const log = await git(cwd, ['log', '-n', String(maxCommits), '--no-renames', '--format=%x1e%an%x1f%aI%x1f%at', '--name-only', 'HEAD', '--', '.']).catch(() => '');
+
+    for (const commit of log.split('\x1e').slice(1)) {
+        const [header, ...files] = splitLines(commit);
+        const [author, date, timestamp] = header.split('\x1f');
+        const inWindow = Number(timestamp) >= since;
+        for (const gitPath of files) {
+            const info = infoFor(gitPath);
+            if (!info) {
+                continue;
+            }
+            if (!info.lastDate) {
+                info.lastAuthor = author;
+                info.lastDate = date;
+            }
+            if (inWindow) {
+                info.churn++;
+            }
+        }
+    }
+}
+
+async function findBaseRef(cwd: string, configured?: string): Promise<string | undefined> {
+    for (const ref of configured ? [configured] : defaultBaseBranches) {
+        try {
+            await git(cwd, ['rev-parse', '--verify', '--quiet', ref + '^{commit}']);
+            return ref;
+        } catch {
+            // Try the next candidate
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Paths from `git status --porcelain -z`. Renames are followed by their old
+ * path, which is skipped.
+ */
+function parseStatus(status: string): string[] {
+    const entries = status.split('\0');
+    const paths: string[] = [];
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        if (entry.length < 4) {
+            continue;
+        }
+        if (entry[0] === 'R' || entry[0] === 'C') {
+            i++;
+        }
+        if (entry[0] !== 'D' && entry[1] !== 'D') {
+            paths.push(entry.slice(3));
+        }
+    }
+    return paths;
+}
+
+function splitLines(text: string): string[] {
+    return text.split('\n').map(line => line.trim()).filter(line => !!line);
+}
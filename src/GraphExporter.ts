@@ -0,0 +1,158 @@
+import { GraphData, GraphFilters, ImportKind, Link, Node } from './types';
+import { linkEndId } from './CycleDetector';
+
+export type ExportFormat = 'dot' | 'mermaid' | 'graphml' | 'json';
+
+/**
+ * File extension and save dialog label of each export format.
+ */
+export const exportFormats: Record<ExportFormat, { extension: string; label: string }> = {
+    dot: { extension: 'dot', label: 'Graphviz DOT' },
+    mermaid: { extension: 'mmd', label: 'Mermaid Flowchart' },
+    graphml: { extension: 'graphml', label: 'GraphML' },
+    json: { extension: 'json', label: 'JSON' }
+};
+
+/**
+ * Kinds drawn as dashed edges, mirroring the webview styles.
+ */
+const indirectKinds: ImportKind[] = ['dynamic', 'type', 'asset'];
+
+/**
+ * Drops what the webview currently hides, so exports match the view.
+ */
+export function filterGraph(data: GraphData, filters: GraphFilters = {}): GraphData {
+    const hiddenKinds = new Set(filters.hiddenLinkKinds || []);
+    const visibleIds = filters.visibleNodeIds && new Set(filters.visibleNodeIds);
+    const nodes = visibleIds ? data.nodes.filter(node => visibleIds.has(node.id)) : data.nodes;
+    const nodeIds = new Set(nodes.map(node => node.id));
+    return {
+        nodes,
+        links: data.links.filter(link =>
+            !hiddenKinds.has(link.kind)
+            && nodeIds.has(linkEndId(link.source))
+            && nodeIds.has(linkEndId(link.target)))
+    };
+}
+
+/**
+ * Serializes the graph in one of the supported formats.
+ */
+export function serializeGraph(data: GraphData, format: ExportFormat): string {
+    switch (format) {
+        case 'dot': return toDot(data);
+        case 'mermaid': return toMermaid(data);
+        case 'graphml': return toGraphML(data);
+        case 'json': return toJson(data);
+    }
+}
+
+function quoteDot(value: string): string {
+    return '"' + value.replace(/\\/g, '\\\\').replace(/"/g, '\\"') + '"';
+}
+
+function toDot(data: GraphData): string {
+    const lines = ['digraph constellation {', '    rankdir=LR;', '    node [shape=box, style=rounded];'];
+    const roots = new Set(data.nodes.map(node => node.root).filter((root): root is string => !!root));
+    const nodeLine = (node: Node) => `${quoteDot(node.id)} [label=${quoteDot(node.name)}];`;
+
+    if (roots.size > 1) {
+        [...roots].forEach((root, index) => {
+            lines.push(`    subgraph cluster_${index} {`, `        label=${quoteDot(root)};`);
+            data.nodes.filter(node => node.root === root).forEach(node => lines.push('        ' + nodeLine(node)));
+            lines.push('    }');
+        });
+        data.nodes.filter(node => !node.root).forEach(node => lines.push('    ' + nodeLine(node)));
+    } else {
+        data.nodes.forEach(node => lines.push('    ' + nodeLine(node)));
+    }
+
+    for (const link of data.links) {
+        const attributes = [`kind=${quoteDot(link.kind)}`, `weight=${link.weight}`];
+        if (indirectKinds.includes(link.kind)) {
+            attributes.push('style=dashed');
+        }
+        lines.push(`    ${quoteDot(linkEndId(link.source))} -> ${quoteDot(linkEndId(link.target))} [${attributes.join(', ')}];`);
+    }
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+function toMermaid(data: GraphData): string {
+    const lines = ['flowchart LR'];
+    const ids = new Map<string, string>();
+    // Mermaid ids must be simple identifiers, so paths become labels
+    data.nodes.forEach((node, index) => {
+        ids.set(node.id, 'n' + index);
+        lines.push(`    n${index}["${node.id.replace(/"/g, '#quot;')}"]`);
+    });
+
+    for (const link of data.links) {
+        const source = ids.get(linkEndId(link.source));
+        const target = ids.get(linkEndId(link.target));
+        const arrow = indirectKinds.includes(link.kind) ? '-.->' : '-->';
+        const label = link.kind === 'static' ? '' : `|${link.kind}|`;
+        lines.push(`    ${source} ${arrow}${label} ${target}`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function toGraphML(data: GraphData): string {
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+        '  <key id="name" for="node" attr.name="name" attr.type="string"/>',
+        '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+        '  <key id="size" for="node" attr.name="size" attr.type="long"/>',
+        '  <key id="root" for="node" attr.name="root" attr.type="string"/>',
+        '  <key id="kind" for="edge" attr.name="kind" attr.type="string"/>',
+        '  <key id="weight" for="edge" attr.name="weight" attr.type="int"/>',
+        '  <graph id="constellation" edgedefault="directed">'
+    ];
+
+    for (const node of data.nodes) {
+        lines.push(`    <node id="${escapeXml(node.id)}">`);
+        lines.push(`      <data key="name">${escapeXml(node.name)}</data>`);
+        lines.push(`      <data key="type">${escapeXml(node.type)}</data>`);
+        lines.push(`      <data key="size">${node.size}</data>`);
+        if (node.root) {
+            lines.push(`      <data key="root">${escapeXml(node.root)}</data>`);
+        }
+        lines.push('    </node>');
+    }
+
+    data.links.forEach((link: Link, index) => {
+        lines.push(`    <edge id="e${index}" source="${escapeXml(linkEndId(link.source))}" target="${escapeXml(linkEndId(link.target))}">`);
+        lines.push(`      <data key="kind">${link.kind}</data>`);
+        lines.push(`      <data key="weight">${link.weight}</data>`);
+        lines.push('    </edge>');
+    });
+
+    lines.push('  </graph>', '</graphml>');
+    return lines.join('\n') + '\n';
+}
+
+function toJson(data: GraphData): string {
+    return JSON.stringify({
+        nodes: data.nodes.map(({ id, name, type, size, root }) => ({ id, name, type, size, root })),
+        links: data.links.map(({ source, target, kind, weight, line, column }) => ({
+            source: linkEndId(source),
+            target: linkEndId(target),
+            kind,
+            weight,
+            line,
+            column
+        }))
+    }, null, 2) + '\n';
+}
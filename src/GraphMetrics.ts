@@ -0,0 +1,201 @@
+import * as path from 'path';
+import { GraphData, NodeMetrics } from './types';
+import { buildAdjacency, findStronglyConnectedComponents } from './CycleDetector';
+
+/**
+ * Above this many nodes, betweenness is estimated from a sample of source
+ * nodes instead of all of them.
+ */
+const exactBetweennessLimit = 1000;
+const betweennessSamples = 500;
+
+/**
+ * Above this many nodes, dependents are counted among a sample of this many
+ * importers and scaled up, which bounds the memory the count needs.
+ */
+const exactDependentsLimit = 4096;
+
+const entryPointNames = new Set([
+    'index', 'main', 'app', 'extension', 'cli', 'server', 'lib', 'mod',
+    '__main__', '__init__', 'setup', 'conftest', 'manage'
+]);
+const entryPointTypes = new Set(['.md', '.html', '.htm', '.json']);
+
+/**
+ * Computes per-node metrics for a graph, keyed by node id. Dependents and
+ * betweenness take far longer than the rest on large graphs and are left
+ * out unless `detailed` is set.
+ */
+export function computeMetrics(data: GraphData, detailed = true): Record<string, NodeMetrics> {
+    const adjacency = buildAdjacency(data);
+    const dependents = detailed ? countDependents(adjacency) : undefined;
+    const betweenness = detailed ? computeBetweenness(adjacency) : undefined;
+    const metrics: Record<string, NodeMetrics> = {};
+
+    for (const id of adjacency.keys()) {
+        metrics[id] = {
+            inDegree: 0,
+            outDegree: new Set(adjacency.get(id)!.filter(target => target !== id)).size,
+            dependents: dependents?.get(id),
+            betweenness: betweenness?.get(id),
+            orphan: false
+        };
+    }
+    for (const [id, targets] of adjacency) {
+        for (const target of new Set(targets)) {
+            if (target !== id) {
+                metrics[target].inDegree++;
+            }
+        }
+    }
+    for (const node of data.nodes) {
+        const nodeMetrics = metrics[node.id];
+        nodeMetrics.orphan = nodeMetrics.inDegree === 0 && node.type !== 'folder' && !isEntryPoint(node.id, node.type);
+    }
+    return metrics;
+}
+
+/**
+ * Files that are expected to have no importers: conventional entry points,
+ * tests, configuration and documents.
+ */
+function isEntryPoint(id: string, type: string): boolean {
+    const fileName = path.basename(id);
+    const segments = id.split(path.sep);
+    return entryPointNames.has(fileName.replace(/\..*$/, ''))
+        || entryPointTypes.has(type)
+        || /[._-](test|spec|config|setup)\.\w+$/.test(fileName)
+        || /^(test|tests|__tests__|spec|scripts|bin)$/.test(segments[segments.length - 2] || '')
+        || fileName.endsWith('.d.ts');
+}
+
+/**
+ * Counts the nodes that can reach each node. Strongly connected components
+ * are handled as one unit, visited from the importers down, and every
+ * component keeps a bitset of the nodes above it until it has passed it
+ * on. Large graphs only track evenly spaced sample nodes and scale up.
+ */
+function countDependents(adjacency: Map<string, string[]>): Map<string, number> {
+    const components = findStronglyConnectedComponents(adjacency);
+    const ids = [...adjacency.keys()];
+    const componentOf = new Map<string, number>();
+    components.forEach((component, c) => component.forEach(id => componentOf.set(id, c)));
+
+    const step = ids.length > exactDependentsLimit ? ids.length / exactDependentsLimit : 1;
+    const bitOf = new Map<string, number>();
+    for (let i = 0; i < ids.length; i += step) {
+        bitOf.set(ids[Math.floor(i)], bitOf.size);
+    }
+    const scale = ids.length / Math.max(bitOf.size, 1);
+    const words = Math.ceil(bitOf.size / 32);
+    const reachers: (Uint32Array | undefined)[] = new Array(components.length);
+    const counts = new Map<string, number>();
+
+    // Tarjan lists components after the ones they import, so walking
+    // backwards visits every importer before the files it imports.
+    for (let c = components.length - 1; c >= 0; c--) {
+        const bits = reachers[c] || new Uint32Array(words);
+        reachers[c] = undefined;
+        for (const id of components[c]) {
+            const i = bitOf.get(id);
+            if (i !== undefined) {
+                bits[i >> 5] |= 1 << (i & 31);
+            }
+        }
+
+        let count = 0;
+        for (const word of bits) {
+            count += popCount(word);
+        }
+        // Members of a cycle reach each other, but a file alone does not depend on itself
+        count -= components[c].length === 1 && bitOf.has(components[c][0]) ? 1 : 0;
+        components[c].forEach(id => counts.set(id, Math.round(count * scale)));
+
+        for (const id of components[c]) {
+            for (const target of adjacency.get(id)!) {
+                const t = componentOf.get(target)!;
+                if (t !== c) {
+                    let targetBits = reachers[t];
+                    if (!targetBits) {
+                        targetBits = new Uint32Array(words);
+                        reachers[t] = targetBits;
+                    }
+                    for (let w = 0; w < words; w++) {
+                        targetBits[w] |= bits[w];
+                    }
+                }
+            }
+        }
+    }
+    return counts;
+}
+
+function popCount(word: number): number {
+    word = word - ((word >>> 1) & 0x55555555);
+    word = (word & 0x33333333) + ((word >>> 2) & 0x33333333);
+    return (((word + (word >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+/**
+ * Brandes' algorithm on the unweighted directed graph, normalized by the
+ * number of ordered pairs of other nodes. Large graphs use evenly spaced
+ * sample sources and scale the result up.
+ */
+function computeBetweenness(adjacency: Map<string, string[]>): Map<string, number> {
+    const ids = [...adjacency.keys()];
+    const n = ids.length;
+    const scores = new Map(ids.map(id => [id, 0]));
+    if (n < 3) {
+        return scores;
+    }
+
+    const step = n > exactBetweennessLimit ? n / betweennessSamples : 1;
+    const sources: string[] = [];
+    for (let i = 0; i < n; i += step) {
+        sources.push(ids[Math.floor(i)]);
+    }
+
+    for (const source of sources) {
+        const order: string[] = [];
+        const predecessors = new Map<string, string[]>();
+        const paths = new Map<string, number>([[source, 1]]);
+        const distance = new Map<string, number>([[source, 0]]);
+        const queue = [source];
+
+        for (let head = 0; head < queue.length; head++) {
+            const current = queue[head];
+            order.push(current);
+            for (const target of adjacency.get(current)!) {
+                if (!distance.has(target)) {
+                    distance.set(target, distance.get(current)! + 1);
+                    queue.push(target);
+                }
+                if (distance.get(target) === distance.get(current)! + 1) {
+                    paths.set(target, (paths.get(target) || 0) + paths.get(current)!);
+                    let list = predecessors.get(target);
+                    if (!list) {
+                        list = [];
+                        predecessors.set(target, list);
+                    }
+                    list.push(current);
+                }
+            }
+        }
+
+        const dependency = new Map<string, number>();
+        for (let i = order.length - 1; i > 0; i--) {
+            const current = order[i];
+            const share = (1 + (dependency.get(current) || 0)) / paths.get(current)!;
+            for (const predecessor of predecessors.get(current) || []) {
+                dependency.set(predecessor, (dependency.get(predecessor) || 0) + paths.get(predecessor)! * share);
+            }
+            scores.set(current, scores.get(current)! + (dependency.get(current) || 0));
+        }
+    }
+
+    const scale = n / sources.length / ((n - 1) * (n - 2));
+    for (const [id, score] of scores) {
+        scores.set(id, score * scale);
+    }
+    return scores;
+}
@@ -1,18 +1,65 @@
 import * as vscode from 'vscode';
 import { ProjectScanner } from './ProjectScanner';
-import { GraphData } from './types';
+import { findCycles } from './CycleDetector';
+import { createWorkspaceScanner } from './WorkspaceRoots';
+import { filterGraph } from './GraphExporter';
+import { aggregateByFolder } from './FolderAggregator';
+import { computeMetrics } from './GraphMetrics';
+import { loadGitOverlay } from './GitHistory';
+import { checkRootRules, loadRules, rulesFileName } from './ArchitectureRules';
+import { exportGraph, pickSnapshotOptions, saveSnapshot } from './ExportDialog';
+import { loadViewFiles, viewsFolder, writeViewFile } from './SavedViews';
+import { GraphData, GraphFilters, Link, NodeMetrics, RuleViolation, SavedView } from './types';
 import * as path from 'path';
 import * as fs from 'fs';
 
+/** Workspace state key of the node positions the graph last settled on. */
+const layoutStateKey = 'codeConstellation.layout';
+/** Workspace state key of the named views that are not saved as project files. */
+const viewsStateKey = 'codeConstellation.views';
+
+/**
+ * A named view and the project file it was read from, if it is one.
+ */
+interface StoredView {
+    view: SavedView;
+    filePath?: string;
+}
+
 export class GraphPanel {
     public static currentPanel: GraphPanel | undefined;
+    public static readonly viewType = 'codeConstellation';
     private readonly _panel: vscode.WebviewPanel;
     private readonly _extensionUri: vscode.Uri;
+    private readonly _context: vscode.ExtensionContext;
     private _disposables: vscode.Disposable[] = [];
+    private _scanner: ProjectScanner | undefined;
+    private _pendingChanges: Map<string, boolean> = new Map();
+    private _changeTimer: NodeJS.Timeout | undefined;
+    private _applyingChanges: Promise<void> = Promise.resolve();
+    private _folderMode = false;
+    private _expandedFolders: Set<string> = new Set();
+    private _syncEditor = true;
+    /** File to reveal once the scan finishes. */
+    private _pendingReveal: string | undefined;
+    /** Node just opened from the graph, so that its editor does not move the graph again. */
+    private _openedFromGraph: string | undefined;
+    /** Churn window of the git overlay, undefined while the overlay is off. */
+    private _gitOverlayDays: number | undefined;
+    /** Incremented per scan so that a superseded scan stops and posts nothing. */
+    private _scanGeneration = 0;
+    /** Set while a scan runs; the previous scanner keeps serving the graph on screen meanwhile. */
+    private _scanning = false;
+    /** Set while the webview shows dependents or centrality, which are slow to compute. */
+    private _detailedMetrics = false;
+    /** Incremented whenever the graph on screen changes, to tell cached metrics apart. */
+    private _graphGeneration = 0;
+    private _metricsCache: { generation: number; detailed: boolean; metrics: Record<string, NodeMetrics> } | undefined;
 
-    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+    private constructor(panel: vscode.WebviewPanel, context: vscode.ExtensionContext) {
         this._panel = panel;
-        this._extensionUri = extensionUri;
+        this._extensionUri = context.extensionUri;
+        this._context = context;
 
         // Set the webview's initial html content
         this._panel.webview.html = this._getWebviewContent();
@@ -27,20 +74,78 @@ export class GraphPanel {
                     case 'openFile':
                         this._openFile(message.path);
                         return;
+                    case 'openImport':
+                        this._openFile(message.path, message);
+                        return;
                     case 'refresh':
                         this._update();
                         return;
+                    case 'selectRoots':
+                        vscode.commands.executeCommand('code-constellation.selectRoots');
+                        return;
+                    case 'exportGraph':
+                        this._exportGraph(message.filters);
+                        return;
+                    case 'snapshot':
+                        this._takeSnapshot();
+                        return;
+                    case 'saveSnapshot':
+                        saveSnapshot(message.format, message.data).catch(error => {
+                            vscode.window.showErrorMessage('Could not save the snapshot: ' + (error instanceof Error ? error.message : String(error)));
+                        });
+                        return;
+                    case 'setFolderMode':
+                        this._setFolderMode(message.enabled);
+                        return;
+                    case 'expandFolder':
+                        this._expandedFolders.add(message.id);
+                        this._postView();
+                        return;
+                    case 'collapseFolder':
+                        this._collapseFolder(message.id);
+                        return;
+                    case 'loadGitOverlay':
+                        this._gitOverlayDays = message.days;
+                        this._loadGitOverlay();
+                        return;
+                    case 'clearGitOverlay':
+                        this._gitOverlayDays = undefined;
+                        return;
+                    case 'setEditorSync':
+                        this._syncEditor = message.enabled;
+                        this._revealActiveEditor();
+                        return;
+                    case 'saveView':
+                        this._saveView(message.view);
+                        return;
+                    case 'deleteView':
+                        this._deleteView();
+                        return;
+                    case 'setDetailedMetrics':
+                        this._setDetailedMetrics(message.enabled);
+                        return;
+                    case 'saveLayout':
+                        // Positions of a half-read project or of folder stars would replace the file layout
+                        if (this._scanner && !this._folderMode) {
+                            this._context.workspaceState.update(layoutStateKey, message.positions);
+                        }
+                        return;
                 }
             },
             null,
             this._disposables
         );
 
+        this._watchWorkspace();
+        vscode.workspace.onDidChangeWorkspaceFolders(() => this._update(), null, this._disposables);
+        vscode.window.onDidChangeActiveTextEditor(() => this._revealActiveEditor(), null, this._disposables);
+
         // Initial update
         this._update();
     }
 
-    public static createOrShow(extensionUri: vscode.Uri) {
+    public static createOrShow(context: vscode.ExtensionContext) {
+        const extensionUri = context.extensionUri;
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
             : undefined;
@@ -53,60 +158,516 @@ export class GraphPanel {
 
         // Otherwise, create a new panel.
         const panel = vscode.window.createWebviewPanel(
-            'codeConstellation',
+            GraphPanel.viewType,
             'Code Constellation',
             column || vscode.ViewColumn.One,
-            {
-                // Enable scripts in the webview
-                enableScripts: true,
-                localResourceRoots: [
-                    vscode.Uri.joinPath(extensionUri, 'out'),
-                    vscode.Uri.joinPath(extensionUri, 'node_modules')
-                ]
-            }
+            GraphPanel._getWebviewOptions(extensionUri)
         );
 
-        GraphPanel.currentPanel = new GraphPanel(panel, extensionUri);
+        GraphPanel.currentPanel = new GraphPanel(panel, context);
+    }
+
+    /**
+     * Takes over a panel VS Code restored after a restart. The webview keeps
+     * its zoom and filters itself and gets the graph from a new scan.
+     */
+    public static revive(panel: vscode.WebviewPanel, context: vscode.ExtensionContext) {
+        panel.webview.options = GraphPanel._getWebviewOptions(context.extensionUri);
+        GraphPanel.currentPanel = new GraphPanel(panel, context);
+    }
+
+    private static _getWebviewOptions(extensionUri: vscode.Uri): vscode.WebviewOptions {
+        return {
+            // Enable scripts in the webview
+            enableScripts: true,
+            localResourceRoots: [
+                vscode.Uri.joinPath(extensionUri, 'out'),
+                vscode.Uri.joinPath(extensionUri, 'node_modules')
+            ]
+        };
+    }
+
+    /**
+     * Rescans the workspace from scratch, e.g. after the selected roots changed.
+     */
+    public refresh() {
+        this._update();
+    }
+
+    /**
+     * Sends changed rendering settings to the webview.
+     */
+    public updateRenderOptions() {
+        this._panel.webview.postMessage({ command: 'setRenderOptions', options: this._getRenderOptions() });
+    }
+
+    private _getRenderOptions() {
+        const config = vscode.workspace.getConfiguration('codeConstellation');
+        return {
+            performanceMode: config.get<string>('performanceMode', 'auto'),
+            webglThreshold: config.get<number>('webglThreshold', 10000)
+        };
     }
 
     private async _update() {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
+        const scanner = createWorkspaceScanner(this._context);
+        if (!scanner) {
             vscode.window.showErrorMessage('No workspace folder open');
             return;
         }
 
-        const rootPath = workspaceFolders[0].uri.fsPath;
-        const scanner = new ProjectScanner(rootPath);
+        const previousScanner = this._scanner;
+        const generation = ++this._scanGeneration;
+        this._scanning = true;
+        if (!this._folderMode) {
+            // Streamed and scanned nodes start where they settled last time
+            this._panel.webview.postMessage({ command: 'restoreLayout', positions: this._context.workspaceState.get(layoutStateKey, {}) });
+        }
         
         vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: "Scanning project...",
-            cancellable: false
-        }, async (progress) => {
-            const data = await scanner.scan();
-            this._panel.webview.postMessage({ command: 'updateData', data: data });
+            cancellable: true
+        }, async (progress, token) => {
+            const superseded = () => generation !== this._scanGeneration;
+            let reported = 0;
+            let firstBatch = true;
+            const keepPrevious = () => {
+                this._scanning = false;
+                // Drop the streamed files that were added to the previous graph
+                if (!firstBatch) {
+                    this._postView();
+                }
+                if (this._pendingChanges.size > 0) {
+                    this._applyChanges();
+                }
+            };
+            let scanned: GraphData;
+            try {
+                scanned = await scanner.scan({
+                    isCancelled: () => token.isCancellationRequested || superseded(),
+                    onProgress: ({ discovered, processed }) => {
+                        // The total grows while folders are walked, so the bar only ever moves forward
+                        const percent = discovered > 0 ? processed / discovered * 100 : 0;
+                        progress.report({
+                            message: processed > 0 ? `${processed} of ${discovered} files` : `${discovered} files found`,
+                            increment: Math.max(0, percent - reported)
+                        });
+                        reported = Math.max(reported, percent);
+                    },
+                    onBatch: batch => {
+                        // Folder nodes need the whole scan; files appear as they are read,
+                        // next to the previous graph when there is one
+                        if (!this._folderMode) {
+                            this._panel.webview.postMessage({ command: 'appendNodes', nodes: batch.nodes, reset: firstBatch && !previousScanner });
+                            firstBatch = false;
+                        }
+                    }
+                });
+            } catch (error) {
+                if (!superseded()) {
+                    keepPrevious();
+                    vscode.window.showErrorMessage(`Code Constellation: scan failed: ${error instanceof Error ? error.message : String(error)}`);
+                }
+                return;
+            }
+            if (superseded()) {
+                return;
+            }
+            if (token.isCancellationRequested && previousScanner) {
+                keepPrevious();
+                vscode.window.showInformationMessage('Code Constellation: scan cancelled. The graph shows the previous scan.');
+                return;
+            }
+
+            const data = this._getView(scanned);
+            const cycles = findCycles(data);
+            this._scanner = scanner;
+            this._scanning = false;
+            if (token.isCancellationRequested) {
+                vscode.window.showInformationMessage('Code Constellation: scan cancelled. The graph shows the files read so far; refresh to scan again.');
+            } else if (scanner.isTruncated()) {
+                vscode.window.showWarningMessage('Code Constellation: the project has more files than codeConstellation.maxNodes allows; some are not shown.');
+            }
+            const roots = (vscode.workspace.workspaceFolders || []).length > 1 ? scanner.getRootNames() : [];
+            this._panel.webview.postMessage({ command: 'updateData', data: data, cycles: cycles, metrics: this._computeMetrics(data), roots: roots });
+            this._postViolations();
+            this._postViews();
+            this._loadGitOverlay();
+            if (this._pendingReveal) {
+                this.revealFile(this._pendingReveal);
+            }
+            if (this._pendingChanges.size > 0) {
+                this._applyChanges();
+            }
+        });
+    }
+
+    /**
+     * Subscribes to workspace file events so the graph can be patched instead of rebuilt.
+     */
+    private _watchWorkspace() {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+        watcher.onDidCreate(uri => this._queueChange(uri, false), null, this._disposables);
+        watcher.onDidChange(uri => this._queueChange(uri, false), null, this._disposables);
+        watcher.onDidDelete(uri => this._queueChange(uri, true), null, this._disposables);
+        this._disposables.push(watcher);
+    }
+
+    /**
+     * Collects file events for a short while so that bursts (branch switches,
+     * formatters, renames) are applied as one update.
+     */
+    private _queueChange(uri: vscode.Uri, deleted: boolean) {
+        if (uri.fsPath.includes(path.sep + viewsFolder + path.sep)) {
+            // View files are not part of the graph; only the toolbar list changes
+            this._postViews();
+            return;
+        }
+        this._pendingChanges.set(uri.fsPath, deleted);
+        if (this._changeTimer) {
+            clearTimeout(this._changeTimer);
+        }
+        this._changeTimer = setTimeout(() => this._applyChanges(), 300);
+    }
+
+    /**
+     * Re-parses the changed files and posts the resulting delta to the webview.
+     */
+    private _applyChanges() {
+        const scanner = this._scanner;
+        if (!scanner || this._scanning || this._pendingChanges.size === 0) {
+            // A scan is running; it applies the queued paths when it finishes.
+            return;
+        }
+
+        const changed: string[] = [];
+        const deleted: string[] = [];
+        for (const [fsPath, isDeleted] of this._pendingChanges) {
+            (isDeleted ? deleted : changed).push(fsPath);
+        }
+        this._pendingChanges.clear();
+
+        this._applyingChanges = this._applyingChanges.then(async () => {
+            const delta = await scanner.update(changed, deleted);
+            if (scanner !== this._scanner) {
+                return;
+            }
+
+            const isEmpty = delta.addedNodes.length + delta.updatedNodes.length + delta.removedNodes.length
+                + delta.addedLinks.length + delta.removedLinks.length === 0;
+            if (isEmpty) {
+                if ([...changed, ...deleted].some(fsPath => path.basename(fsPath) === rulesFileName)) {
+                    this._postViolations();
+                }
+                return;
+            }
+            if (this._folderMode) {
+                // Folder nodes depend on many files; rebuilding the view is simpler than patching it
+                this._postView();
+            } else {
+                const data = scanner.getGraphData();
+                this._panel.webview.postMessage({ command: 'applyDelta', delta: delta, cycles: findCycles(data), metrics: this._computeMetrics(data) });
+            }
+            this._postViolations();
+            // Edits change the working tree status
+            this._loadGitOverlay();
+        }).catch(error => console.error('Error applying file changes:', error));
+    }
+
+    /**
+     * Centers the graph on a file and highlights its neighborhood. Before the
+     * first scan finishes, the file is revealed once it does.
+     * @param fsPath Absolute path of the file.
+     * @returns False when the scanned graph does not contain the file.
+     */
+    public revealFile(fsPath: string): boolean {
+        if (!this._scanner) {
+            this._pendingReveal = fsPath;
+            return true;
+        }
+        this._pendingReveal = undefined;
+        const id = this._scanner.getNodeId(fsPath);
+        if (id) {
+            this._panel.webview.postMessage({ command: 'revealNode', id: id });
+        }
+        return id !== undefined;
+    }
+
+    private _revealActiveEditor() {
+        const editor = vscode.window.activeTextEditor;
+        if (!this._syncEditor || !editor || editor.document.uri.scheme !== 'file') {
+            return;
+        }
+        const fsPath = editor.document.uri.fsPath;
+        if (this._openedFromGraph === fsPath) {
+            this._openedFromGraph = undefined;
+            return;
+        }
+        this.revealFile(fsPath);
+    }
+
+    /**
+     * Opens the cycle list in the webview.
+     */
+    public showCycles() {
+        this._panel.webview.postMessage({ command: 'showCycles' });
+    }
+
+    /**
+     * Asks the webview for its current filters and exports what it shows.
+     */
+    public requestExport() {
+        this._panel.webview.postMessage({ command: 'requestExport' });
+    }
+
+    private _exportGraph(filters: GraphFilters) {
+        if (!this._scanner) {
+            vscode.window.showWarningMessage('The project is still being scanned.');
+            return;
+        }
+        exportGraph(filterGraph(this._getView(this._scanner.getGraphData()), filters)).catch(error => {
+            vscode.window.showErrorMessage('Could not export the graph: ' + (error instanceof Error ? error.message : String(error)));
+        });
+    }
+
+    /**
+     * Returns what the webview shows: the file graph, or in folder mode the
+     * graph aggregated by folder with the expanded folders opened.
+     */
+    private _getView(data: GraphData): GraphData {
+        return this._folderMode ? aggregateByFolder(data, this._expandedFolders) : data;
+    }
+
+    private _setFolderMode(enabled: boolean) {
+        this._folderMode = enabled;
+        this._expandedFolders.clear();
+        this._postView();
+    }
+
+    /**
+     * Folds a folder back into one node, together with the folders opened inside it.
+     */
+    private _collapseFolder(id: string) {
+        for (const folder of [...this._expandedFolders]) {
+            if (folder === id || folder.startsWith(id + path.sep)) {
+                this._expandedFolders.delete(folder);
+            }
+        }
+        this._postView();
+    }
+
+    /**
+     * Replaces the webview graph with the current view, keeping node positions.
+     */
+    private _postView() {
+        if (!this._scanner) {
+            return;
+        }
+        const data = this._getView(this._scanner.getGraphData());
+        this._panel.webview.postMessage({ command: 'setView', data: data, cycles: findCycles(data), metrics: this._computeMetrics(data) });
+    }
+
+    /**
+     * Computes the metrics of a graph that was just put on screen. Dependents
+     * and centrality are only included while the webview shows them.
+     */
+    private _computeMetrics(data: GraphData): Record<string, NodeMetrics> {
+        const metrics = computeMetrics(data, this._detailedMetrics);
+        this._metricsCache = { generation: ++this._graphGeneration, detailed: this._detailedMetrics, metrics };
+        return metrics;
+    }
+
+    /**
+     * Switches the slow metrics on or off and, when they are first needed
+     * for the graph on screen, computes and sends them.
+     */
+    private _setDetailedMetrics(enabled: boolean) {
+        this._detailedMetrics = enabled;
+        const cache = this._metricsCache;
+        if (!enabled || !this._scanner || (cache && cache.generation === this._graphGeneration && cache.detailed)) {
+            return;
+        }
+        const metrics = computeMetrics(this._getView(this._scanner.getGraphData()));
+        this._metricsCache = { generation: this._graphGeneration, detailed: true, metrics };
+        this._panel.webview.postMessage({ command: 'setMetrics', metrics: metrics });
+    }
+
+    /**
+     * Checks the links against `.constellation.json` and sends the violations
+     * to the webview. The webview maps them onto folder nodes itself.
+     */
+    private _postViolations() {
+        const scanner = this._scanner;
+        if (!scanner) {
+            return;
+        }
+
+        let violations: RuleViolation[] = [];
+        try {
+            const rules = loadRules(scanner.getRootPaths(), scanner.getRootPrefixes());
+            violations = rules ? checkRootRules(scanner.getGraphData(), rules) : [];
+        } catch (error) {
+            // The rule reporter tells the user about broken rules files
+            console.error('Error checking architecture rules:', error);
+        }
+        this._panel.webview.postMessage({ command: 'setViolations', violations: violations });
+    }
+
+    /**
+     * Reads git history for the scanned files and sends it to the webview.
+     * Failures are reported once and switch the overlay off.
+     */
+    private async _loadGitOverlay() {
+        const scanner = this._scanner;
+        const days = this._gitOverlayDays;
+        if (!scanner || days === undefined) {
+            return;
+        }
+
+        const baseBranch = vscode.workspace.getConfiguration('codeConstellation').get<string>('gitBaseBranch', '');
+        try {
+            const overlay = await loadGitOverlay(scanner.getRootPaths(), fullPath => scanner.getNodeId(fullPath), { days, baseBranch: baseBranch || undefined });
+            if (scanner === this._scanner && days === this._gitOverlayDays) {
+                this._panel.webview.postMessage({ command: 'gitOverlay', overlay: overlay });
+            }
+        } catch (error) {
+            this._gitOverlayDays = undefined;
+            vscode.window.showErrorMessage('Could not read git history: ' + (error instanceof Error ? error.message : String(error)));
+            this._panel.webview.postMessage({ command: 'gitOverlay', overlay: null });
+        }
+    }
+
+    /**
+     * Named views from workspace state, followed by the view files of the scanned roots.
+     */
+    private _getViews(): StoredView[] {
+        const views: StoredView[] = this._context.workspaceState.get<SavedView[]>(viewsStateKey, []).map(view => ({ view }));
+        const files = loadViewFiles(this._scanner?.getRootPaths() || [], error => {
+            vscode.window.showWarningMessage('Code Constellation: skipped a view file. ' + error.message);
+        });
+        return [...views, ...files];
+    }
+
+    private _postViews() {
+        const views = this._getViews().map(stored => ({ view: stored.view, shared: stored.filePath !== undefined }));
+        this._panel.webview.postMessage({ command: 'setViews', views: views });
+    }
+
+    /**
+     * Asks for a name and where to keep a view the webview captured: in
+     * workspace state, or as a file in `.constellation/views` to commit.
+     */
+    private async _saveView(captured: Omit<SavedView, 'name'>) {
+        const rootPaths = this._scanner?.getRootPaths() || [];
+        const name = await vscode.window.showInputBox({
+            prompt: 'Name of the view',
+            placeHolder: 'e.g. Checkout flow',
+            validateInput: value => value.trim() ? undefined : 'Enter a name'
         });
+        if (!name) {
+            return;
+        }
+        const places = [
+            { label: 'Workspace', description: 'Only for you, in this workspace', rootPath: undefined as string | undefined },
+            ...rootPaths.map(rootPath => ({
+                label: 'Project File',
+                description: path.join(rootPaths.length > 1 ? path.basename(rootPath) : '', viewsFolder),
+                detail: 'Can be committed and shared with the team',
+                rootPath
+            }))
+        ];
+        const place = await vscode.window.showQuickPick(places, { placeHolder: `Where to save "${name.trim()}"` });
+        if (!place) {
+            return;
+        }
+
+        const view: SavedView = { ...captured, name: name.trim() };
+        try {
+            if (place.rootPath) {
+                writeViewFile(place.rootPath, view);
+            } else {
+                const views = this._context.workspaceState.get<SavedView[]>(viewsStateKey, []).filter(other => other.name !== view.name);
+                await this._context.workspaceState.update(viewsStateKey, [...views, view].sort((a, b) => a.name.localeCompare(b.name)));
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage('Could not save the view: ' + (error instanceof Error ? error.message : String(error)));
+            return;
+        }
+        this._postViews();
+    }
+
+    private async _deleteView() {
+        const pick = await vscode.window.showQuickPick(
+            this._getViews().map(stored => ({
+                label: stored.view.name,
+                description: stored.filePath ? vscode.workspace.asRelativePath(stored.filePath) : 'Workspace',
+                stored
+            })),
+            { placeHolder: 'View to delete' }
+        );
+        if (!pick) {
+            return;
+        }
+
+        const { view, filePath } = pick.stored;
+        try {
+            if (filePath) {
+                await vscode.workspace.fs.delete(vscode.Uri.file(filePath));
+            } else {
+                const views = this._context.workspaceState.get<SavedView[]>(viewsStateKey, []);
+                await this._context.workspaceState.update(viewsStateKey, views.filter(other => other.name !== view.name));
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage('Could not delete the view: ' + (error instanceof Error ? error.message : String(error)));
+            return;
+        }
+        this._postViews();
+    }
+
+    /**
+     * Asks what to capture; the webview renders it and sends it back for saving.
+     */
+    private async _takeSnapshot() {
+        const options = await pickSnapshotOptions();
+        if (options) {
+            this._panel.webview.postMessage({ command: 'captureSnapshot', options: options });
+        }
     }
 
-    private _openFile(relativePath: string) {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
+    /**
+     * Opens a scanned file. When `position` carries a line (a link's import
+     * location), the import is selected.
+     */
+    private _openFile(id: string, position?: Pick<Link, 'line' | 'column' | 'endLine' | 'endColumn'>) {
+        const fullPath = this._scanner?.getFilePath(id);
+        if (!fullPath) {
             return;
         }
         
-        const rootPath = workspaceFolders[0].uri.fsPath;
-        const fullPath = path.join(rootPath, relativePath);
         const uri = vscode.Uri.file(fullPath);
+        this._openedFromGraph = fullPath;
+        let selection: vscode.Range | undefined;
+        if (position && typeof position.line === 'number') {
+            const start = new vscode.Position(position.line, position.column || 0);
+            const end = typeof position.endLine === 'number'
+                ? new vscode.Position(position.endLine, position.endColumn || 0)
+                : start;
+            selection = new vscode.Range(start, end);
+        }
         
         vscode.workspace.openTextDocument(uri).then(doc => {
-            vscode.window.showTextDocument(doc);
+            vscode.window.showTextDocument(doc, { selection });
         });
     }
 
     public dispose() {
         GraphPanel.currentPanel = undefined;
 
+        if (this._changeTimer) {
+            clearTimeout(this._changeTimer);
+        }
+
         this._panel.dispose();
 
         while (this._disposables.length) {
@@ -204,6 +765,15 @@ export class GraphPanel {
             z-index: 1;
         }
 
+        /* WebGL stars and links sit under the force-graph canvas, which keeps pointer events */
+        #gl-layer {
+            position: absolute;
+            top: 0;
+            left: 0;
+            z-index: -1;
+            pointer-events: none;
+        }
+
         #toolbar {
             position: absolute;
             top: 20px;
@@ -305,6 +875,33 @@ export class GraphPanel {
             box-shadow: 0 0 5px rgba(0,0,0,0.5);
         }
 
+        .line-swatch {
+            width: 18px;
+            height: 0;
+            margin-right: 8px;
+            border-top-width: 2px;
+        }
+
+        .legend-item.disabled { opacity: 0.3; }
+
+        .depth-control {
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            font-size: 11px;
+            font-weight: 600;
+        }
+
+        select {
+            background: rgba(0,0,0,0.3);
+            color: white;
+            border: 1px solid var(--border-color);
+            border-radius: 10px;
+            padding: 3px 6px;
+            font-size: 11px;
+            outline: none;
+        }
+
         .scene-tooltip {
             background: rgba(10, 10, 15, 0.95) !important;
             border: 1px solid rgba(88, 166, 255, 0.3) !important;
@@ -345,94 +942,960 @@ export class GraphPanel {
             font-family: 'Consolas', 'Monaco', monospace;
             border: 1px solid #30363d;
         }
-        #stats {
+        #cycle-panel {
             position: absolute;
-            bottom: 20px;
+            top: 90px;
             left: 20px;
             z-index: 100;
+            width: 260px;
+            max-height: 60%;
+            overflow-y: auto;
+            display: none;
+            background: var(--panel-bg);
+            backdrop-filter: blur(15px);
+            padding: 15px;
+            border-radius: 15px;
+            border: 1px solid var(--border-color);
             font-size: 11px;
-            color: #888;
-            background: rgba(0,0,0,0.3);
-            padding: 4px 10px;
-            border-radius: 10px;
+            box-shadow: 0 10px 40px rgba(0,0,0,0.5);
         }
-    </style>
-</head>
-<body>
-    <div id="stars-container"></div>
-    <div id="toolbar">
-        <div class="search-container">
-            <input type="text" id="searchInput" placeholder="SCAN SECTOR..." oninput="handleSearch(this.value)">
-        </div>
-        <button onclick="refresh()">↺ Rescan</button>
-        <button onclick="fitToScreen()">▢ Center</button>
-    </div>
 
-    <div id="legend">
-        <div class="legend-title">Galactic Clusters (Types)</div>
-        <div id="legend-items"></div>
-        <div class="legend-title" style="margin-top: 15px;">Star Magnitude (Size)</div>
-        <div id="size-legend" style="display: flex; align-items: flex-end; gap: 12px; padding: 5px 0;">
-            <div style="display: flex; flex-direction: column; align-items: center; gap: 4px;">
-                <div style="width: 4px; height: 4px; border-radius: 50%; background: #fff; box-shadow: 0 0 5px #fff;"></div>
-                <div style="font-size: 8px; opacity: 0.6;">SMALL</div>
-            </div>
-            <div style="display: flex; flex-direction: column; align-items: center; gap: 4px;">
-                <div style="width: 8px; height: 8px; border-radius: 50%; background: #fff; box-shadow: 0 0 5px #fff;"></div>
-                <div style="font-size: 8px; opacity: 0.6;">MEDIUM</div>
-            </div>
-            <div style="display: flex; flex-direction: column; align-items: center; gap: 4px;">
-                <div style="width: 14px; height: 14px; border-radius: 50%; background: #fff; box-shadow: 0 0 8px #fff;"></div>
-                <div style="font-size: 8px; opacity: 0.6;">LARGE</div>
-            </div>
-        </div>
-    </div>
+        .panel-close {
+            float: right;
+            cursor: pointer;
+            opacity: 0.6;
+        }
 
-    <div id="stats">0 files detected • 0 links established</div>
-    <div id="graph"></div>
+        .cycle-item {
+            padding: 6px 8px;
+            margin-bottom: 4px;
+            border-radius: 6px;
+            border-left: 2px solid #ff4d4f;
+            cursor: pointer;
+        }
+        .cycle-item:hover, .cycle-item.active { background: rgba(255, 77, 79, 0.12); }
 
-    <script>
-        const starsContainer = document.getElementById('stars-container');
-        for (let i = 0; i < 150; i++) {
-            const star = document.createElement('div');
-            star.className = 'star';
-            const size = Math.random() * 2 + 1;
-            star.style.width = size + 'px';
-            star.style.height = size + 'px';
-            star.style.left = (Math.random() * 100) + '%';
-            star.style.top = (Math.random() * 100) + '%';
-            star.style.setProperty('--duration', (Math.random() * 3 + 2) + 's');
-            star.style.opacity = Math.random();
-            starsContainer.appendChild(star);
+        .cycle-files {
+            font-family: monospace;
+            font-size: 10px;
+            color: #7d8590;
+            word-break: break-all;
         }
 
-        const vscode = acquireVsCodeApi();
-        let Graph;
-        let hoverNode = null;
-        let searchNode = null;
-        let graphData = { nodes: [], links: [] };
-        const neighbors = new Set();
-        const neighborLinks = new Set();
-        
-        const colorScale = d3.scaleOrdinal(d3.schemeTableau10);
-        
-        const typeColorsMap = {
-            '.ts': '#3178c6',
-            '.tsx': '#58a6ff',
-            '.js': '#f7df1e',
+        #hotspot-panel {
+            position: absolute;
+            top: 90px;
+            right: 20px;
+            z-index: 100;
+            width: 380px;
+            max-height: 50%;
+            overflow-y: auto;
+            display: none;
+            background: var(--panel-bg);
+            backdrop-filter: blur(15px);
+            padding: 15px;
+            border-radius: 15px;
+            border: 1px solid var(--border-color);
+            font-size: 11px;
+            box-shadow: 0 10px 40px rgba(0,0,0,0.5);
+        }
+
+        .hotspot-options {
+            display: flex;
+            gap: 8px;
+            margin-bottom: 10px;
+        }
+
+        #hotspot-table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        #hotspot-table th {
+            text-align: right;
+            font-size: 9px;
+            letter-spacing: 1px;
+            color: #58a6ff;
+            cursor: pointer;
+            padding: 4px;
+            user-select: none;
+        }
+        #hotspot-table td {
+            text-align: right;
+            padding: 3px 4px;
+            font-variant-numeric: tabular-nums;
+        }
+        #hotspot-table th:first-child, #hotspot-table td:first-child {
+            text-align: left;
+            font-family: monospace;
+            word-break: break-all;
+        }
+        #hotspot-table tbody tr { cursor: pointer; }
+        #hotspot-table tbody tr:hover { background: rgba(88, 166, 255, 0.12); }
+
+        #connections-panel {
+            position: absolute;
+            bottom: 55px;
+            left: 20px;
+            z-index: 100;
+            width: 300px;
+            max-height: 40%;
+            overflow-y: auto;
+            display: none;
+            background: var(--panel-bg);
+            backdrop-filter: blur(15px);
+            padding: 15px;
+            border-radius: 15px;
+            border: 1px solid var(--border-color);
+            font-size: 11px;
+            box-shadow: 0 10px 40px rgba(0,0,0,0.5);
+        }
+
+        .connection-group {
+            margin: 8px 0 4px;
+            font-size: 9px;
+            letter-spacing: 1px;
+            color: #7d8590;
+        }
+        .connection-item {
+            padding: 4px 8px;
+            margin-bottom: 2px;
+            border-radius: 6px;
+            font-family: monospace;
+            font-size: 10px;
+            word-break: break-all;
+            cursor: pointer;
+        }
+        .connection-item:hover { background: rgba(88, 166, 255, 0.12); }
+        .connection-item span { color: #7d8590; }
+
+        .tooltip-metrics {
+            font-size: 10px;
+            color: #a3b3bc;
+            margin-bottom: 10px;
+            letter-spacing: 0.5px;
+        }
+        .orphan-badge {
+            color: #ffa657;
+            font-weight: 700;
+        }
+
+        #stats {
+            position: absolute;
+            bottom: 20px;
+            left: 20px;
+            z-index: 100;
+            font-size: 11px;
+            color: #888;
+            background: rgba(0,0,0,0.3);
+            padding: 4px 10px;
+            border-radius: 10px;
+        }
+    </style>
+</head>
+<body>
+    <div id="stars-container"></div>
+    <div id="toolbar">
+        <div class="search-container">
+            <input type="text" id="searchInput" placeholder="SCAN SECTOR..." oninput="handleSearch(this.value)">
+        </div>
+        <div class="depth-control" title="Levels of dependents (files importing the focused file) to trace">
+            <span style="color: #ffa657;">↑</span>
+            <select id="upstreamDepth" onchange="setFocusDepth('up', this.value)">
+                <option value="1" selected>1</option>
+                <option value="2">2</option>
+                <option value="3">3</option>
+                <option value="5">5</option>
+                <option value="Infinity">ALL</option>
+            </select>
+        </div>
+        <div class="depth-control" title="Levels of dependencies (files imported by the focused file) to trace">
+            <span style="color: #58a6ff;">↓</span>
+            <select id="downstreamDepth" onchange="setFocusDepth('down', this.value)">
+                <option value="1" selected>1</option>
+                <option value="2">2</option>
+                <option value="3">3</option>
+                <option value="5">5</option>
+                <option value="Infinity">ALL</option>
+            </select>
+        </div>
+        <button onclick="refresh()">↺ Rescan</button>
+        <button onclick="fitToScreen()">▢ Center</button>
+        <button onclick="relayout()" title="Run the force layout again. Positions are remembered once the graph settles">✺ Relayout</button>
+        <button id="cycleButton" onclick="toggleCyclePanel()">⟳ Cycles</button>
+        <button onclick="toggleHotspotPanel()" title="Rank files by fan-in, fan-out, dependents and centrality">▤ Hotspots</button>
+        <button onclick="exportGraph()" title="Export the visible graph as DOT, Mermaid, GraphML or JSON">⇩ Export</button>
+        <button onclick="requestSnapshot()" title="Save the view or the whole graph as PNG or SVG">◫ Snapshot</button>
+        <div class="depth-control">
+            <label title="Show one star per folder. Double-click a folder to expand it, or a file (or any star with Shift) to collapse its folder"><input type="checkbox" id="folderMode" style="width: auto;" onchange="setFolderMode(this.checked)"> FOLDERS</label>
+            <label title="Follow the active editor: switching files centers the graph on them"><input type="checkbox" id="editorSync" style="width: auto;" checked onchange="setEditorSync(this.checked)"> SYNC</label>
+        </div>
+        <div class="depth-control">
+            <select id="viewSelect" title="Saved views restore positions, pins, zoom, filters and marked stars. Drag a star to pin it, Alt+click to unpin it, Ctrl/Cmd+click to mark it" onchange="pickView(this.value)"></select>
+        </div>
+        <div class="depth-control">
+            <select id="gitMode" title="Color stars by git history, or show only uncommitted changes and their dependents" onchange="setGitMode(this.value)">
+                <option value="" selected>GIT: OFF</option>
+                <option value="churn">GIT: CHURN</option>
+                <option value="branch">GIT: BRANCH</option>
+                <option value="diff">GIT: DIFF VIEW</option>
+            </select>
+            <select id="churnDays" title="Churn window" style="display: none;" onchange="setChurnDays(this.value)">
+                <option value="7">7 DAYS</option>
+                <option value="30" selected>30 DAYS</option>
+                <option value="90">90 DAYS</option>
+                <option value="365">1 YEAR</option>
+            </select>
+        </div>
+        <div id="root-controls" class="depth-control" style="display: none;">
+            <select id="colorMode" title="Color stars by file type or by workspace folder" onchange="setColorMode(this.value)">
+                <option value="type" selected>COLOR: TYPE</option>
+                <option value="root">COLOR: FOLDER</option>
+            </select>
+            <label title="Pull each workspace folder into its own cluster"><input type="checkbox" id="clusterRoots" style="width: auto;" onchange="setRootClustering(this.checked)"> CLUSTER</label>
+            <button onclick="selectRoots()">◎ Roots</button>
+        </div>
+    </div>
+
+    <div id="cycle-panel">
+        <span class="panel-close" onclick="toggleCyclePanel()">✕</span>
+        <div class="legend-title">Circular Dependencies</div>
+        <div id="cycle-list"></div>
+    </div>
+
+    <div id="hotspot-panel">
+        <span class="panel-close" onclick="toggleHotspotPanel()">✕</span>
+        <div class="legend-title">Hotspots</div>
+        <div class="hotspot-options">
+            <select id="sizeMetric" title="What star size shows" onchange="setSizeMetric(this.value)"></select>
+            <select id="colorMetric" title="What star color shows" onchange="setColorMetric(this.value)"></select>
+        </div>
+        <table id="hotspot-table">
+            <thead><tr id="hotspot-header"></tr></thead>
+            <tbody id="hotspot-rows"></tbody>
+        </table>
+    </div>
+
+    <div id="connections-panel">
+        <span class="panel-close" onclick="showConnections(null)">✕</span>
+        <div class="legend-title" id="connections-title">Connections</div>
+        <div id="connections-list"></div>
+    </div>
+
+    <div id="legend">
+        <div class="legend-title" id="legend-items-title">Galactic Clusters (Types)</div>
+        <div id="legend-items"></div>
+        <div class="legend-title" style="margin-top: 15px;">Gravity Lines (Links)</div>
+        <div id="link-legend-items"></div>
+        <div class="legend-title" style="margin-top: 15px;">Focus Direction</div>
+        <div class="legend-item"><div class="dot" style="background: #ffa657; box-shadow: 0 0 8px #ffa657"></div>DEPENDENTS (IMPORT IT)</div>
+        <div class="legend-item"><div class="dot" style="background: #58a6ff; box-shadow: 0 0 8px #58a6ff"></div>DEPENDENCIES (IT IMPORTS)</div>
+        <div class="legend-title" style="margin-top: 15px;">Star Magnitude (Size)</div>
+        <div id="size-legend" style="display: flex; align-items: flex-end; gap: 12px; padding: 5px 0;">
+            <div style="display: flex; flex-direction: column; align-items: center; gap: 4px;">
+                <div style="width: 4px; height: 4px; border-radius: 50%; background: #fff; box-shadow: 0 0 5px #fff;"></div>
+                <div style="font-size: 8px; opacity: 0.6;">SMALL</div>
+            </div>
+            <div style="display: flex; flex-direction: column; align-items: center; gap: 4px;">
+                <div style="width: 8px; height: 8px; border-radius: 50%; background: #fff; box-shadow: 0 0 5px #fff;"></div>
+                <div style="font-size: 8px; opacity: 0.6;">MEDIUM</div>
+            </div>
+            <div style="display: flex; flex-direction: column; align-items: center; gap: 4px;">
+                <div style="width: 14px; height: 14px; border-radius: 50%; background: #fff; box-shadow: 0 0 8px #fff;"></div>
+                <div style="font-size: 8px; opacity: 0.6;">LARGE</div>
+            </div>
+        </div>
+    </div>
+
+    <div id="stats">0 files detected • 0 links established</div>
+    <div id="graph"></div>
+
+    <script>
+        const starsContainer = document.getElementById('stars-container');
+        for (let i = 0; i < 150; i++) {
+            const star = document.createElement('div');
+            star.className = 'star';
+            const size = Math.random() * 2 + 1;
+            star.style.width = size + 'px';
+            star.style.height = size + 'px';
+            star.style.left = (Math.random() * 100) + '%';
+            star.style.top = (Math.random() * 100) + '%';
+            star.style.setProperty('--duration', (Math.random() * 3 + 2) + 's');
+            star.style.opacity = Math.random();
+            starsContainer.appendChild(star);
+        }
+
+        const vscode = acquireVsCodeApi();
+        let Graph;
+        let hoverNode = null;
+        let searchNode = null;
+        let graphData = { nodes: [], links: [] };
+        // Focus roles by node id and by link: 'dependency' (downstream) or 'dependent' (upstream)
+        const focusNodes = new Map();
+        const focusLinks = new Map();
+        const focusDepth = { up: 1, down: 1 };
+        const focusColors = { dependency: '88, 166, 255', dependent: '255, 166, 87' };
+        const hiddenLinkKinds = new Set();
+        const cycleRgb = '255, 77, 79';
+        const violationRgb = '255, 200, 0';
+        // Architecture rule violations by link key, mapped onto the visible nodes
+        let violations = [];
+        let violationsByKey = new Map();
+        let cycles = [];
+        let cycleLinkKeys = new Set();
+        let activeCycle = null;
+        let activeCycleIndex = -1;
+        let rootNames = [];
+        let colorMode = 'type';
+        let clusterRoots = false;
+        let folderMode = false;
+        let pendingClick = null;
+        // Node whose imports and importers are listed in the connections panel
+        let connectionsNodeId = null;
+        let dataReceivedAt = 0;
+        const pathSep = ` + JSON.stringify(path.sep) + `;
+        // Rendering settings. Performance mode and WebGL switch on by graph size
+        let renderOptions = ` + JSON.stringify(this._getRenderOptions()) + `;
+        const largeGraphSize = 2000;
+        // Zoom levels performance mode waits for before drawing glow, dashes and arrowheads, and labels
+        const detailScale = 1.5;
+        const performanceLabelScale = 2.5;
+        let performanceMode = false;
+        let glLayer = null;
+        // Graph coordinates on screen in the current frame, for skipping what is off screen
+        let viewBounds = null;
+        // Positions the graph settled on last time, by node id: [x, y], or [x, y, 1] when pinned
+        let savedLayout = new Map();
+        let engineRunning = false;
+        // Stars marked with Ctrl/Cmd+click; saved views keep them
+        let highlightedIds = new Set();
+        // Named views from the extension, and the state VS Code kept while the panel was closed
+        let savedViews = [];
+        let pendingState = vscode.getState();
+        let hasFitted = false;
+        let persistTimer = null;
+        // Per-node metrics computed by the extension, by node id
+        let nodeMetrics = {};
+        let metricMaxima = {};
+        let sizeMetric = 'size';
+        let colorMetric = '';
+        let hotspotSort = { key: 'dependents', descending: true };
+        // Dependents and centrality are slow to compute, so the extension only sends them while they are shown
+        const detailedMetrics = ['dependents', 'betweenness'];
+        let detailedMetricsShown = false;
+        const hotspotLimit = 100;
+        // Git overlay: 'churn', 'branch' or 'diff', with the history sent by the extension
+        let gitMode = '';
+        let churnDays = 30;
+        let gitOverlay = null;
+        let gitInfoByNode = new Map();
+        let maxChurn = 0;
+        let diffChangedCount = 0;
+        const diffNodes = new Set();
+        const gitColors = { uncommitted: '#ffd33d', branch: '#f0883e', unchanged: '#30363d' };
+        const metricDefinitions = {
+            'inDegree': { label: 'In', title: 'Files importing it directly' },
+            'outDegree': { label: 'Out', title: 'Files it imports directly' },
+            'dependents': { label: 'Dependents', title: 'Files depending on it directly or indirectly' },
+            'betweenness': { label: 'Centrality', title: 'Share of shortest import paths passing through it' }
+        };
+        const rootColorScale = d3.scaleOrdinal(d3.schemeSet2);
+        
+        const colorScale = d3.scaleOrdinal(d3.schemeTableau10);
+        
+        const typeColorsMap = {
+            '.ts': '#3178c6',
+            '.tsx': '#58a6ff',
+            '.js': '#f7df1e',
             '.jsx': '#ffd33d',
             '.css': '#79c0ff',
             '.scss': '#d299ff',
             '.html': '#ffa657',
             '.json': '#7ee787',
             '.py': '#3776ab',
-            '.md': '#ffffff'
+            '.md': '#ffffff',
+            'folder': '#e3b341'
         };
 
+        function escapeHtml(unsafe) {
+            return unsafe.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#039;");
+        }
+
         function getTypeColor(type) {
             return typeColorsMap[type] || colorScale(type);
         }
 
+        function getNodeColor(node) {
+            if (gitMode && gitOverlay) return getGitColor(node);
+            if (colorMetric === 'orphan') return getMetric(node, 'orphan') ? '#ffa657' : '#30363d';
+            if (colorMetric) return d3.interpolateYlOrRd(0.15 + 0.85 * getMetricShare(node, colorMetric));
+            return colorMode === 'root' ? rootColorScale(node.root) : getTypeColor(node.type);
+        }
+
+        // Legend groups follow the color mode: file types or workspace folders
+        function getLegendGroup(node) {
+            return colorMode === 'root' ? (node.root || 'other') : (node.type || 'other');
+        }
+
+        function setColorMode(mode) {
+            colorMode = mode;
+            renderLegendTitle();
+            renderLegend();
+        }
+
+        function renderLegendTitle() {
+            let title = colorMode === 'root' ? 'Galactic Clusters (Folders)' : 'Galactic Clusters (Types)';
+            if (colorMetric) title = 'Star Color (' + (colorMetric === 'orphan' ? 'Orphans' : metricDefinitions[colorMetric].label) + ')';
+            if (gitMode && gitOverlay) {
+                const base = gitOverlay.baseRef ? ' vs ' + gitOverlay.baseRef : '';
+                title = gitMode === 'churn' ? 'Git Churn (' + churnDays + ' Days)' : (gitMode === 'branch' ? 'Git Changes' + base : 'Uncommitted Changes');
+            }
+            document.getElementById('legend-items-title').innerText = title;
+        }
+
+        // Color/label pairs for colorings that replace the type legend, or null
+        function getColorScaleLegend() {
+            if (gitMode && gitOverlay) {
+                if (gitMode === 'churn') return [[gitColors.unchanged, 'NO COMMITS'], [d3.interpolatePlasma(0.25), 'FEW COMMITS'], [d3.interpolatePlasma(1), 'MOST COMMITS']];
+                if (gitMode === 'branch') return [[gitColors.uncommitted, 'UNCOMMITTED'], [gitColors.branch, 'CHANGED ON BRANCH'], [gitColors.unchanged, 'UNCHANGED']];
+                return [[gitColors.uncommitted, 'UNCOMMITTED'], ['#ffffff', 'DIRECT DEPENDENTS (OWN COLOR)']];
+            }
+            if (colorMetric === 'orphan') return [['#30363d', 'IMPORTED OR ENTRY POINT'], ['#ffa657', 'ORPHAN']];
+            if (colorMetric) return [[d3.interpolateYlOrRd(0.15), 'LOW'], [d3.interpolateYlOrRd(1), 'HIGH']];
+            return null;
+        }
+
+        function setRootClustering(enabled) {
+            clusterRoots = enabled;
+            applyRootClustering();
+            Graph.d3ReheatSimulation();
+        }
+
+        // Places one cluster center per workspace folder on a circle and pulls its files towards it
+        function applyRootClustering() {
+            if (!clusterRoots || rootNames.length < 2) {
+                Graph.d3Force('clusterX', null);
+                Graph.d3Force('clusterY', null);
+                return;
+            }
+            const radius = 300 + 60 * rootNames.length;
+            const centers = {};
+            rootNames.forEach(function(name, i) {
+                const angle = 2 * Math.PI * i / rootNames.length;
+                centers[name] = { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+            });
+            Graph.d3Force('clusterX', d3.forceX(function(n) { return centers[n.root] ? centers[n.root].x : 0; }).strength(0.08));
+            Graph.d3Force('clusterY', d3.forceY(function(n) { return centers[n.root] ? centers[n.root].y : 0; }).strength(0.08));
+        }
+
+        function setRoots(names) {
+            rootNames = names || [];
+            document.getElementById('root-controls').style.display = rootNames.length > 1 ? 'flex' : 'none';
+            if (rootNames.length < 2 && colorMode === 'root') {
+                document.getElementById('colorMode').value = 'type';
+                setColorMode('type');
+            }
+            applyRootClustering();
+        }
+
+        function selectRoots() {
+            vscode.postMessage({ command: 'selectRoots' });
+        }
+
+        // Canvas dash patterns are in screen pixels and scaled by zoom when drawn
+        const linkKindStyles = {
+            'static': { label: 'Import', rgb: '88, 166, 255', dash: [], cssDash: 'solid' },
+            'reexport': { label: 'Re-export', rgb: '126, 231, 135', dash: [], cssDash: 'solid' },
+            'require': { label: 'Require', rgb: '255, 166, 87', dash: [], cssDash: 'solid' },
+            'dynamic': { label: 'Dynamic', rgb: '210, 153, 255', dash: [6, 4], cssDash: 'dashed' },
+            'asset': { label: 'Asset', rgb: '121, 192, 255', dash: [1, 3], cssDash: 'dotted' },
+            'type': { label: 'Type-only', rgb: '163, 179, 188', dash: [2, 3], cssDash: 'dotted' }
+        };
+
+        // Rule violations win over cycles, which win over the link kind
+        function getLinkRgb(link) {
+            const key = linkKey(link);
+            if (violationsByKey.has(key)) return violationRgb;
+            return cycleLinkKeys.has(key) ? cycleRgb : getLinkStyle(link).rgb;
+        }
+
+        function getLinkStyle(link) {
+            return linkKindStyles[link.kind] || linkKindStyles['static'];
+        }
+
+        function isLinkVisible(link) {
+            return !hiddenLinkKinds.has(link.kind) && isInDiffView(linkEndId(link.source)) && isInDiffView(linkEndId(link.target));
+        }
+
+        function isNodeVisible(node) {
+            return isInDiffView(node.id);
+        }
+
+        function isInDiffView(id) {
+            return gitMode !== 'diff' || !gitOverlay || diffNodes.has(id);
+        }
+
+        // Folders are sized by how many files they hold, files by their bytes, unless a metric is chosen
+        function getNodeRadius(node) {
+            if (sizeMetric !== 'size') return 3 + 15 * getMetricShare(node, sizeMetric);
+            if (node.type === 'folder') return 6 + 4 * Math.sqrt(node.fileCount || 1);
+            return Math.sqrt(node.size || 1000) / 3;
+        }
+
+        function getCollisionRadius(node) {
+            return getNodeRadius(node) + 15; // Increased buffer radius to prevent crowding
+        }
+
+        function linkEndId(end) {
+            return typeof end === 'object' ? end.id : end;
+        }
+
+        function linkKey(link) {
+            return linkEndId(link.source) + '->' + linkEndId(link.target);
+        }
+
+        function setFocus(node) {
+            hoverNode = node;
+            focusNodes.clear();
+            focusLinks.clear();
+            requestRedraw();
+            if (!node) return;
+            traceFocus(node.id, 'dependency', focusDepth.down);
+            traceFocus(node.id, 'dependent', focusDepth.up);
+        }
+
+        // Breadth-first walk that follows links forwards for dependencies and backwards for dependents
+        function traceFocus(startId, role, depth) {
+            const forward = role === 'dependency';
+            const links = Graph.graphData().links.filter(isLinkVisible);
+            const seen = new Set([startId]);
+            let frontier = new Set([startId]);
+
+            for (let level = 0; level < depth && frontier.size > 0; level++) {
+                const next = new Set();
+                links.forEach(function(link) {
+                    const from = linkEndId(forward ? link.source : link.target);
+                    const to = linkEndId(forward ? link.target : link.source);
+                    if (!frontier.has(from)) return;
+                    if (!focusLinks.has(link)) focusLinks.set(link, role);
+                    if (seen.has(to)) return;
+                    seen.add(to);
+                    next.add(to);
+                    if (to !== startId && !focusNodes.has(to)) focusNodes.set(to, role);
+                });
+                frontier = next;
+            }
+        }
+
+        function setFocusDepth(direction, value) {
+            focusDepth[direction] = Number(value);
+            if (hoverNode) setFocus(hoverNode);
+        }
+
+        // Triangle just outside the target node, pointing along the link
+        function getArrowHead(link, globalScale) {
+            const dx = link.target.x - link.source.x;
+            const dy = link.target.y - link.source.y;
+            const length = Math.sqrt(dx * dx + dy * dy);
+            if (!length) return null;
+
+            const ux = dx / length;
+            const uy = dy / length;
+            const headLength = 6 / globalScale;
+            const tipOffset = getNodeRadius(link.target) + 1 / globalScale;
+            const tipX = link.target.x - ux * tipOffset;
+            const tipY = link.target.y - uy * tipOffset;
+            return [
+                [tipX, tipY],
+                [tipX - ux * headLength - uy * headLength / 2, tipY - uy * headLength + ux * headLength / 2],
+                [tipX - ux * headLength + uy * headLength / 2, tipY - uy * headLength - ux * headLength / 2]
+            ];
+        }
+
+        function drawArrowHead(ctx, link, color, globalScale) {
+            const points = getArrowHead(link, globalScale);
+            if (!points) return;
+
+            ctx.beginPath();
+            ctx.moveTo(points[0][0], points[0][1]);
+            ctx.lineTo(points[1][0], points[1][1]);
+            ctx.lineTo(points[2][0], points[2][1]);
+            ctx.closePath();
+            ctx.fillStyle = color;
+            ctx.fill();
+        }
+
+        // Graph coordinates at the edges of the canvas, from the zoom transform force-graph set on it
+        function getViewBounds(ctx) {
+            const m = ctx.getTransform();
+            return {
+                left: -m.e / m.a,
+                top: -m.f / m.d,
+                right: (ctx.canvas.width - m.e) / m.a,
+                bottom: (ctx.canvas.height - m.f) / m.d
+            };
+        }
+
+        function isInView(x, y, margin) {
+            return !viewBounds || (x + margin >= viewBounds.left && x - margin <= viewBounds.right && y + margin >= viewBounds.top && y - margin <= viewBounds.bottom);
+        }
+
+        function isLinkInView(link) {
+            if (!viewBounds) return true;
+            return Math.max(link.source.x, link.target.x) >= viewBounds.left && Math.min(link.source.x, link.target.x) <= viewBounds.right &&
+                Math.max(link.source.y, link.target.y) >= viewBounds.top && Math.min(link.source.y, link.target.y) <= viewBounds.bottom;
+        }
+
+        // Picks how to draw for the size of the graph: every effect, performance mode, or WebGL
+        function applyRenderMode() {
+            const count = graphData.nodes.length;
+            const useGl = renderOptions.webglThreshold > 0 && count > renderOptions.webglThreshold;
+            if (useGl && !glLayer) glLayer = createGlLayer();
+            if (!useGl && glLayer) destroyGlLayer();
+            performanceMode = !!glLayer || renderOptions.performanceMode === 'on' || (renderOptions.performanceMode === 'auto' && count > largeGraphSize);
+
+            // Without the twinkle nothing changes once the simulation has settled, so redrawing can pause
+            Graph.autoPauseRedraw(performanceMode);
+            Graph.backgroundColor(glLayer ? 'rgba(0, 0, 0, 0)' : 'rgba(5, 5, 8, 0.7)');
+            requestRedraw();
+        }
+
+        // While redrawing is paused, force-graph only repaints when one of its properties is set
+        function requestRedraw() {
+            if (Graph) Graph.nodeRelSize(Graph.nodeRelSize());
+        }
+
+        // Settled positions are kept by the extension so that reopening the graph can skip the simulation
+        function saveLayout() {
+            if (folderMode) return;
+            const positions = {};
+            graphData.nodes.forEach(function(n) {
+                if (!isFinite(n.x) || !isFinite(n.y)) return;
+                positions[n.id] = getPosition(n);
+                savedLayout.set(n.id, positions[n.id]);
+            });
+            vscode.postMessage({ command: 'saveLayout', positions: positions });
+        }
+
+        // Puts nodes without a position where they settled last time. When every
+        // node has settled before, the simulation is skipped until something moves.
+        function restoreLayout(nodes) {
+            let placed = nodes.length > 0;
+            nodes.forEach(function(n) {
+                const saved = savedLayout.get(n.id);
+                if (!saved) {
+                    placed = false;
+                } else if (!isFinite(n.x) || !isFinite(n.y)) {
+                    n.x = saved[0];
+                    n.y = saved[1];
+                    if (saved[2]) {
+                        n.fx = n.x;
+                        n.fy = n.y;
+                    }
+                }
+            });
+            Graph.cooldownTicks(placed ? 0 : Infinity);
+        }
+
+        function getPosition(node) {
+            const position = [Math.round(node.x), Math.round(node.y)];
+            if (node.fx !== undefined && node.fx !== null) position.push(1);
+            return position;
+        }
+
+        // Pinned stars stay where they were dropped, through rescans and reloads
+        function setPinned(node, pinned) {
+            node.fx = pinned ? node.x : undefined;
+            node.fy = pinned ? node.y : undefined;
+            if (!engineRunning) saveLayout();
+            requestRedraw();
+        }
+
+        function unpinAll() {
+            graphData.nodes.forEach(function(n) {
+                n.fx = undefined;
+                n.fy = undefined;
+            });
+            relayout();
+        }
+
+        function toggleHighlight(node) {
+            if (highlightedIds.has(node.id)) {
+                highlightedIds.delete(node.id);
+            } else {
+                highlightedIds.add(node.id);
+            }
+            requestRedraw();
+            persistState();
+        }
+
+        // Positions (with pins), zoom, display choices and marked stars
+        function captureView(withPositions) {
+            const center = Graph.centerAt();
+            const depth = function(levels) { return isFinite(levels) ? levels : null; };
+            const view = {
+                zoom: { k: Graph.zoom(), x: center.x, y: center.y },
+                filters: {
+                    hiddenLinkKinds: Array.from(hiddenLinkKinds),
+                    focusDepth: { up: depth(focusDepth.up), down: depth(focusDepth.down) },
+                    colorMode: colorMode,
+                    sizeMetric: sizeMetric,
+                    colorMetric: colorMetric
+                },
+                highlighted: Array.from(highlightedIds)
+            };
+            if (withPositions) {
+                view.positions = {};
+                graphData.nodes.forEach(function(n) {
+                    if (isFinite(n.x) && isFinite(n.y)) view.positions[n.id] = getPosition(n);
+                });
+            }
+            return view;
+        }
+
+        // Restores what captureView recorded; nodes the view does not know stay where they are
+        function applyView(view) {
+            if (view.positions) {
+                graphData.nodes.forEach(function(n) {
+                    const position = view.positions[n.id];
+                    if (!position) return;
+                    n.x = position[0];
+                    n.y = position[1];
+                    n.vx = 0;
+                    n.vy = 0;
+                    n.fx = position[2] ? n.x : undefined;
+                    n.fy = position[2] ? n.y : undefined;
+                });
+                // A running simulation would move the nodes away again
+                if (engineRunning) Graph.cooldownTicks(0);
+            }
+
+            const filters = view.filters || {};
+            hiddenLinkKinds.clear();
+            (filters.hiddenLinkKinds || []).forEach(function(kind) { hiddenLinkKinds.add(kind); });
+            Graph.linkVisibility(isLinkVisible);
+            if (filters.focusDepth) {
+                ['up', 'down'].forEach(function(direction) {
+                    const levels = filters.focusDepth[direction];
+                    focusDepth[direction] = levels === null ? Infinity : levels;
+                    document.getElementById(direction === 'up' ? 'upstreamDepth' : 'downstreamDepth').value = String(focusDepth[direction]);
+                });
+            }
+            if (filters.colorMode && (filters.colorMode !== 'root' || rootNames.length > 1)) {
+                document.getElementById('colorMode').value = filters.colorMode;
+                setColorMode(filters.colorMode);
+            }
+            if (filters.sizeMetric) {
+                sizeMetric = filters.sizeMetric;
+                document.getElementById('sizeMetric').value = sizeMetric;
+                Graph.d3Force('collide').radius(getCollisionRadius);
+                syncDetailedMetrics();
+            }
+            if (filters.colorMetric !== undefined) {
+                document.getElementById('colorMetric').value = filters.colorMetric;
+                setColorMetric(filters.colorMetric);
+            }
+            highlightedIds = new Set(view.highlighted || []);
+            setFocus(null);
+            renderLegend();
+
+            if (view.zoom) {
+                Graph.centerAt(view.zoom.x, view.zoom.y, 600);
+                Graph.zoom(view.zoom.k, 600);
+            }
+            if (view.positions) saveLayout();
+            persistState();
+        }
+
+        function renderViewOptions() {
+            const select = document.getElementById('viewSelect');
+            select.innerHTML = '';
+            select.add(new Option('VIEWS', ''));
+            savedViews.forEach(function(entry, index) {
+                select.add(new Option('VIEW: ' + entry.view.name.toUpperCase() + (entry.shared ? ' (PROJECT)' : ''), 'view:' + index));
+            });
+            select.add(new Option('SAVE VIEW…', 'save'));
+            if (savedViews.length > 0) select.add(new Option('DELETE VIEW…', 'delete'));
+            select.add(new Option('UNPIN ALL', 'unpin'));
+        }
+
+        function pickView(value) {
+            document.getElementById('viewSelect').value = '';
+            if (value === 'save') {
+                vscode.postMessage({ command: 'saveView', view: captureView(true) });
+            } else if (value === 'delete') {
+                vscode.postMessage({ command: 'deleteView' });
+            } else if (value === 'unpin') {
+                unpinAll();
+            } else if (value.indexOf('view:') === 0) {
+                applyView(savedViews[Number(value.slice(5))].view);
+            }
+        }
+
+        // VS Code keeps this state while the panel is closed with the window and restores it with the panel
+        function persistState() {
+            clearTimeout(persistTimer);
+            persistTimer = setTimeout(function() {
+                if (!Graph) return;
+                const state = captureView(false);
+                state.folderMode = folderMode;
+                vscode.setState(state);
+            }, 300);
+        }
+
+        function relayout() {
+            Graph.cooldownTicks(Infinity);
+            Graph.d3ReheatSimulation();
+        }
+
+        // WebGL draws stars and links on a canvas under force-graph's, which then
+        // only draws highlights and labels. Returns null where WebGL is unavailable.
+        function createGlLayer() {
+            const canvas = document.createElement('canvas');
+            canvas.id = 'gl-layer';
+            // The buffer is kept so that snapshots can copy it
+            const gl = canvas.getContext('webgl', { premultipliedAlpha: false, preserveDrawingBuffer: true });
+            if (!gl) return null;
+
+            const header = 'uniform vec4 transform; attribute vec2 position; attribute vec4 color; varying vec4 vColor; ';
+            const place = 'gl_Position = vec4(position * transform.xy + transform.zw, 0.0, 1.0); vColor = color; ';
+            const layer = {
+                canvas: canvas,
+                gl: gl,
+                buffer: gl.createBuffer(),
+                linkProgram: createGlProgram(gl,
+                    header + 'void main() { ' + place + '}',
+                    'precision mediump float; varying vec4 vColor; void main() { gl_FragColor = vColor; }'),
+                // Points cover the glow; the solid core takes the inner part given by shape.y
+                nodeProgram: createGlProgram(gl,
+                    header + 'attribute vec2 shape; varying float vCore; void main() { ' + place + 'gl_PointSize = shape.x; vCore = shape.y; }',
+                    'precision mediump float; varying vec4 vColor; varying float vCore; void main() { ' +
+                    'float d = length(gl_PointCoord - vec2(0.5)) * 2.0; if (d > 1.0) discard; ' +
+                    'float core = 1.0 - smoothstep(vCore - 0.05, vCore, d); ' +
+                    'float glow = vCore < 1.0 ? pow(1.0 - d, 2.0) * 0.5 : 0.0; ' +
+                    'gl_FragColor = vec4(vColor.rgb, vColor.a * max(core, glow)); }'),
+                maxPointSize: gl.getParameter(gl.ALIASED_POINT_SIZE_RANGE)[1],
+                colors: new Map(),
+                data: new Float32Array(0)
+            };
+            if (!layer.linkProgram || !layer.nodeProgram) return null;
+            const container = document.getElementById('graph');
+            container.insertBefore(canvas, container.firstChild);
+            return layer;
+        }
+
+        function createGlProgram(gl, vertexSource, fragmentSource) {
+            const program = gl.createProgram();
+            [[gl.VERTEX_SHADER, vertexSource], [gl.FRAGMENT_SHADER, fragmentSource]].forEach(function(source) {
+                const shader = gl.createShader(source[0]);
+                gl.shaderSource(shader, source[1]);
+                gl.compileShader(shader);
+                gl.attachShader(program, shader);
+            });
+            gl.linkProgram(program);
+            if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+                console.error('WebGL program failed:', gl.getProgramInfoLog(program));
+                return null;
+            }
+            return program;
+        }
+
+        function destroyGlLayer() {
+            const lose = glLayer.gl.getExtension('WEBGL_lose_context');
+            if (lose) lose.loseContext();
+            glLayer.canvas.remove();
+            glLayer = null;
+        }
+
+        // CSS colors as WebGL RGB components, parsed once per color
+        function getGlColor(css) {
+            let rgb = glLayer.colors.get(css);
+            if (!rgb) {
+                const color = d3.color(css).rgb();
+                rgb = [color.r / 255, color.g / 255, color.b / 255];
+                glLayer.colors.set(css, rgb);
+            }
+            return rgb;
+        }
+
+        // Draws with the same colors and dimming as the canvas, from force-graph's zoom transform
+        function drawGlLayer(ctx, globalScale) {
+            const gl = glLayer.gl;
+            const canvas = glLayer.canvas;
+            if (canvas.width !== ctx.canvas.width || canvas.height !== ctx.canvas.height) {
+                canvas.width = ctx.canvas.width;
+                canvas.height = ctx.canvas.height;
+                canvas.style.width = ctx.canvas.style.width;
+                canvas.style.height = ctx.canvas.style.height;
+            }
+            gl.viewport(0, 0, canvas.width, canvas.height);
+            gl.clearColor(5 / 255, 5 / 255, 8 / 255, 0.7);
+            gl.clear(gl.COLOR_BUFFER_BIT);
+            gl.enable(gl.BLEND);
+            gl.blendFuncSeparate(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+            const m = ctx.getTransform();
+            const transform = [2 * m.a / canvas.width, -2 * m.d / canvas.height, 2 * m.e / canvas.width - 1, 1 - 2 * m.f / canvas.height];
+            const pixelScale = globalScale * (window.devicePixelRatio || 1);
+            const nodes = graphData.nodes.filter(function(n) { return isNodeVisible(n) && isFinite(n.x) && isFinite(n.y); });
+            const links = graphData.links.filter(function(l) {
+                return isLinkVisible(l) && typeof l.source === 'object' && typeof l.target === 'object' && isFinite(l.source.x) && isFinite(l.target.x);
+            });
+
+            // Links: two vertices of x, y, r, g, b, a each
+            const linkData = getGlData(links.length * 12);
+            links.forEach(function(link, i) {
+                const isHovered = hoverNode && focusLinks.has(link);
+                const inCycle = cycleLinkKeys.has(linkKey(link));
+                const inActiveCycle = activeCycle && inCycle && activeCycle.has(link.source.id) && activeCycle.has(link.target.id);
+                const isDimmed = (hoverNode || activeCycle) && !isHovered && !inActiveCycle;
+                const rgb = getGlColor('rgb(' + getLinkRgb(link) + ')');
+                const alpha = isDimmed ? 0.02 : (inCycle || violationsByKey.has(linkKey(link)) ? 0.6 : 0.25);
+                linkData.set([link.source.x, link.source.y, rgb[0], rgb[1], rgb[2], alpha, link.target.x, link.target.y, rgb[0], rgb[1], rgb[2], alpha], i * 12);
+            });
+            drawGlArrays(glLayer.linkProgram, gl.LINES, linkData, links.length * 2, transform, [['position', 2], ['color', 4]]);
+
+            // Stars: x, y, r, g, b, a, point size in pixels, share of the point taken by the core
+            const nodeData = getGlData(nodes.length * 8);
+            nodes.forEach(function(node, i) {
+                const isHovered = hoverNode && (node === hoverNode || focusNodes.has(node.id));
+                const isDimmed = (hoverNode || searchNode || activeCycle) && !isHovered && node !== searchNode && !(activeCycle && activeCycle.has(node.id));
+                const radius = Math.max(1, getNodeRadius(node) * pixelScale);
+                const glow = !isDimmed && globalScale >= 0.5;
+                const size = Math.min(glLayer.maxPointSize, (glow ? 6 : 2) * radius);
+                const rgb = isDimmed ? [1, 1, 1] : getGlColor(getNodeColor(node));
+                nodeData.set([node.x, node.y, rgb[0], rgb[1], rgb[2], isDimmed ? 0.05 : 1, size, glow ? 1 / 3 : 1], i * 8);
+            });
+            drawGlArrays(glLayer.nodeProgram, gl.POINTS, nodeData, nodes.length, transform, [['position', 2], ['color', 4], ['shape', 2]]);
+        }
+
+        // One growing array is reused for every frame
+        function getGlData(length) {
+            if (glLayer.data.length < length) glLayer.data = new Float32Array(Math.ceil(length * 1.5));
+            return glLayer.data.subarray(0, length);
+        }
+
+        // Uploads interleaved float vertices and draws them; attributes are [name, size] in buffer order
+        function drawGlArrays(program, mode, data, count, transform, attributes) {
+            if (!count) return;
+            const gl = glLayer.gl;
+            gl.useProgram(program);
+            gl.bindBuffer(gl.ARRAY_BUFFER, glLayer.buffer);
+            gl.bufferData(gl.ARRAY_BUFFER, data, gl.STREAM_DRAW);
+            gl.uniform4fv(gl.getUniformLocation(program, 'transform'), transform);
+
+            const stride = attributes.reduce(function(sum, attribute) { return sum + attribute[1]; }, 0) * 4;
+            let offset = 0;
+            const locations = attributes.map(function(attribute) {
+                const location = gl.getAttribLocation(program, attribute[0]);
+                gl.enableVertexAttribArray(location);
+                gl.vertexAttribPointer(location, attribute[1], gl.FLOAT, false, stride, offset);
+                offset += attribute[1] * 4;
+                return location;
+            });
+            gl.drawArrays(mode, 0, count);
+            locations.forEach(function(location) { gl.disableVertexAttribArray(location); });
+        }
+
         function initGraph() {
             if (typeof ForceGraph === 'undefined' || typeof d3 === 'undefined') {
                 setTimeout(initGraph, 100);
@@ -446,61 +1909,161 @@ export class GraphPanel {
                 Graph.d3Force('charge').strength(-600).distanceMax(1000); // Stronger repulsion with a range limit
                 Graph.d3Force('link').distance(100);                      // Increased distance between connected stars
                 Graph.d3Force('center').strength(0.01);                  // Very gentle centering to prevent "the ball"
-                Graph.d3Force('collide', d3.forceCollide(function(node) { 
-                    return Math.sqrt(node.size || 1000) / 3 + 15;        // Increased buffer radius to prevent crowding
-                }));
+                Graph.d3Force('collide', d3.forceCollide(getCollisionRadius));
                 
                 Graph.d3VelocityDecay(0.15); // Slightly higher friction for a more stable, even spread
                 Graph.enableNodeDrag(true);
                 Graph.enableZoomPanInteraction(true);
                 Graph.autoPauseRedraw(false);
 
-                setupGraphProperties();
+                setupGraphProperties();
+
+            } catch (e) {
+                console.error('Error initializing graph:', e);
+                document.getElementById('graph').innerText = 'Error: ' + e.message;
+            }
+        }
+
+        function renderLegend() {
+            const container = document.getElementById('legend-items');
+            if (!container) return;
+            container.innerHTML = '';
+
+            const scale = getColorScaleLegend();
+            if (scale) {
+                container.innerHTML = scale.map(function(entry) {
+                    return '<div class="legend-item"><div class="dot" style="background: ' + entry[0] + '; box-shadow: 0 0 8px ' + entry[0] + '"></div>' + entry[1] + '</div>';
+                }).join('');
+                renderLinkLegend();
+                return;
+            }
+            
+            const groups = [];
+            graphData.nodes.forEach(function(n) {
+                const g = getLegendGroup(n);
+                if (groups.indexOf(g) === -1) groups.push(g);
+            });
+            groups.sort();
+            
+            groups.forEach(function(group) {
+                const color = colorMode === 'root' ? rootColorScale(group) : getTypeColor(group);
+                const item = document.createElement('div');
+                item.className = 'legend-item';
+                item.innerHTML = '<div class="dot" style="background: ' + color + '; box-shadow: 0 0 8px ' + color + '"></div>' + escapeHtml(group.toUpperCase());
+                item.onclick = function() { highlightGroup(group); };
+                container.appendChild(item);
+            });
+
+            renderLinkLegend();
+        }
+
+        function renderLinkLegend() {
+            const container = document.getElementById('link-legend-items');
+            if (!container) return;
+            container.innerHTML = '';
+
+            const counts = {};
+            graphData.links.forEach(function(l) {
+                counts[l.kind] = (counts[l.kind] || 0) + 1;
+            });
+
+            Object.keys(linkKindStyles).forEach(function(kind) {
+                if (!counts[kind]) return;
+                const style = linkKindStyles[kind];
+                const item = document.createElement('div');
+                item.className = 'legend-item' + (hiddenLinkKinds.has(kind) ? ' disabled' : '');
+                item.title = 'Click to show or hide';
+                item.innerHTML = '<div class="line-swatch" style="border-top-style: ' + style.cssDash + '; border-top-color: rgb(' + style.rgb + ')"></div>' + style.label.toUpperCase() + ' (' + counts[kind] + ')';
+                item.onclick = function() { toggleLinkKind(kind); };
+                container.appendChild(item);
+            });
+
+            if (violationsByKey.size > 0) {
+                const item = document.createElement('div');
+                item.className = 'legend-item';
+                item.title = 'Links breaking .constellation.json rules. Click to show them';
+                item.innerHTML = '<div class="line-swatch" style="border-top-style: solid; border-top-color: rgb(' + violationRgb + ')"></div>RULE VIOLATIONS (' + violationsByKey.size + ')';
+                item.onclick = focusViolations;
+                container.appendChild(item);
+            }
+
+            if (cycleLinkKeys.size > 0) {
+                const item = document.createElement('div');
+                item.className = 'legend-item';
+                item.title = 'Click to list cycles';
+                item.innerHTML = '<div class="line-swatch" style="border-top-style: solid; border-top-color: rgb(' + cycleRgb + ')"></div>CIRCULAR (' + cycleLinkKeys.size + ')';
+                item.onclick = function() { toggleCyclePanel(true); };
+                container.appendChild(item);
+            }
+        }
+
+        function setCycles(list) {
+            cycles = list || [];
+            cycleLinkKeys = new Set();
+            cycles.forEach(function(cycle) {
+                cycle.links.forEach(function(link) { cycleLinkKeys.add(linkKey(link)); });
+            });
+            activeCycle = null;
+            activeCycleIndex = -1;
+            document.getElementById('cycleButton').innerText = '⟳ Cycles (' + cycles.length + ')';
+            renderCyclePanel();
+        }
+
+        function renderCyclePanel() {
+            const list = document.getElementById('cycle-list');
+            list.innerHTML = '';
+            if (cycles.length === 0) {
+                list.innerHTML = '<div style="opacity: 0.6;">No circular dependencies found.</div>';
+                return;
+            }
+
+            cycles.forEach(function(cycle, index) {
+                const item = document.createElement('div');
+                item.className = 'cycle-item' + (index === activeCycleIndex ? ' active' : '');
+                item.innerHTML = '<div style="color: #ff7b7d; font-weight: 700;">CYCLE ' + (index + 1) + ' • ' + cycle.nodes.length + ' FILES</div>' +
+                    '<div class="cycle-files">' + cycle.nodes.map(escapeHtml).join('<br>') + '</div>';
+                item.onclick = function() { focusCycle(index); };
+                list.appendChild(item);
+            });
+        }
+
+        function toggleCyclePanel(forceOpen) {
+            const panel = document.getElementById('cycle-panel');
+            const open = forceOpen === true || panel.style.display !== 'block';
+            panel.style.display = open ? 'block' : 'none';
+            if (!open && activeCycle) focusCycle(activeCycleIndex);
+        }
 
-            } catch (e) {
-                console.error('Error initializing graph:', e);
-                document.getElementById('graph').innerText = 'Error: ' + e.message;
+        function focusCycle(index) {
+            if (index === activeCycleIndex) {
+                activeCycle = null;
+                activeCycleIndex = -1;
+            } else {
+                activeCycleIndex = index;
+                activeCycle = new Set(cycles[index].nodes);
+                Graph.zoomToFit(800, 80, function(node) { return activeCycle.has(node.id); });
             }
+            renderCyclePanel();
         }
 
-        function renderLegend() {
-            const container = document.getElementById('legend-items');
-            if (!container) return;
-            container.innerHTML = '';
-            
-            const types = [];
-            graphData.nodes.forEach(function(n) {
-                const t = n.type || 'other';
-                if (types.indexOf(t) === -1) types.push(t);
-            });
-            types.sort();
-            
-            types.forEach(function(type) {
-                const color = getTypeColor(type);
-                const item = document.createElement('div');
-                item.className = 'legend-item';
-                item.innerHTML = '<div class="dot" style="background: ' + color + '; box-shadow: 0 0 8px ' + color + '"></div>' + type.toUpperCase();
-                item.onclick = function() { highlightType(type); };
-                container.appendChild(item);
-            });
+        function toggleLinkKind(kind) {
+            if (hiddenLinkKinds.has(kind)) {
+                hiddenLinkKinds.delete(kind);
+            } else {
+                hiddenLinkKinds.add(kind);
+            }
+            setFocus(null);
+            Graph.linkVisibility(isLinkVisible);
+            renderLinkLegend();
         }
 
-        function highlightType(type) {
-            const node = graphData.nodes.find(function(n) { return n.type === type || (type === 'other' && !n.type); });
+        function highlightGroup(group) {
+            const node = graphData.nodes.find(function(n) { return getLegendGroup(n) === group; });
             if (node) {
                 Graph.centerAt(node.x, node.y, 1000);
                 Graph.zoom(3, 1000);
                 
-                hoverNode = node;
-                neighbors.clear();
-                neighborLinks.clear();
-                const links = Graph.graphData().links;
-                links.forEach(function(link) {
-                    const sId = typeof link.source === 'object' ? link.source.id : link.source;
-                    const tId = typeof link.target === 'object' ? link.target.id : link.target;
-                    if (sId === node.id) { neighbors.add(tId); neighborLinks.add(link); }
-                    else if (tId === node.id) { neighbors.add(sId); neighborLinks.add(link); }
-                });
+                setFocus(node);
             }
         }
 
@@ -524,88 +2087,147 @@ export class GraphPanel {
         function setupGraphProperties() {
             if (!Graph) return;
 
-            const escapeHtml = function(unsafe) { 
-                return unsafe.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#039;"); 
-            };
-
             Graph
                 .backgroundColor('rgba(5, 5, 8, 0.7)') 
                 .nodeId('id')
                 .nodeLabel(function(node) {
                     const preview = node.preview ? escapeHtml(node.preview) : '';
-                    return '<div class="scene-tooltip"><div class="tooltip-header"><span>' + node.name + '</span><span style="font-size: 10px; color: #888;">' + (node.size / 1024).toFixed(1) + ' KB</span></div><div class="tooltip-path">' + node.id + '</div><pre>' + preview + '</pre></div>';
+                    return '<div class="scene-tooltip"><div class="tooltip-header"><span>' + node.name + '</span><span style="font-size: 10px; color: #888;">' + (node.size / 1024).toFixed(1) + ' KB</span></div><div class="tooltip-path">' + node.id + '</div>' + getMetricsSummary(node) + getGitSummary(node) + '<pre>' + preview + '</pre></div>';
+                })
+                .nodeVal(getNodeRadius)
+                .onNodeClick(function(node, event) {
+                    if (event.altKey) {
+                        setPinned(node, false);
+                        return;
+                    }
+                    if (event.ctrlKey || event.metaKey) {
+                        toggleHighlight(node);
+                        return;
+                    }
+                    if (!folderMode) {
+                        openNode(node);
+                        return;
+                    }
+                    // In folder mode a second click on the same node within 250ms is a double-click
+                    if (pendingClick) clearTimeout(pendingClick.timer);
+                    if (pendingClick && pendingClick.node === node) {
+                        pendingClick = null;
+                        toggleFolder(node, event.shiftKey);
+                        return;
+                    }
+                    pendingClick = { node: node, timer: setTimeout(function() { pendingClick = null; openNode(node); }, 250) };
                 })
-                .nodeVal(function(node) { return Math.sqrt(node.size || 1000) / 3; })
-                .onNodeClick(function(node) {
-                    vscode.postMessage({ command: 'openFile', path: node.id });
+                .onNodeRightClick(function(node) {
+                    showConnections(node.id);
+                })
+                .onNodeDragEnd(function(node) {
+                    setPinned(node, true);
                 })
                 .onNodeHover(function(node) {
                     if (node === hoverNode) return;
                     document.body.style.cursor = node ? 'pointer' : null;
-                    hoverNode = node;
-                    neighbors.clear();
-                    neighborLinks.clear();
-                    if (node) {
-                        const links = Graph.graphData().links;
-                        links.forEach(function(link) {
-                            const sId = typeof link.source === 'object' ? link.source.id : link.source;
-                            const tId = typeof link.target === 'object' ? link.target.id : link.target;
-                            if (sId === node.id) { neighbors.add(tId); neighborLinks.add(link); }
-                            else if (tId === node.id) { neighbors.add(sId); neighborLinks.add(link); }
-                        });
-                    }
+                    setFocus(node);
+                })
+                .onLinkClick(openLink)
+                .onLinkHover(function(link) {
+                    if (hoverNode) return;
+                    document.body.style.cursor = link ? 'pointer' : null;
+                })
+                .nodeVisibility(isNodeVisible)
+                .linkVisibility(isLinkVisible)
+                .linkLabel(function(link) {
+                    const style = getLinkStyle(link);
+                    const broken = violationsByKey.get(linkKey(link)) || [];
+                    return escapeHtml(style.label + (link.weight > 1 ? ' × ' + link.weight : '')) + broken.map(function(v) {
+                        return '<br><span style="color: rgb(' + violationRgb + ')">⚠ ' + escapeHtml(v.message) + '</span>';
+                    }).join('');
                 })
                 .linkCanvasObject(function(link, ctx, globalScale) {
-                    const isHovered = hoverNode && neighborLinks.has(link);
-                    const isDimmed = hoverNode && !isHovered;
+                    const focusRole = focusLinks.get(link);
+                    const inCycle = cycleLinkKeys.has(linkKey(link));
+                    const inActiveCycle = activeCycle && inCycle && activeCycle.has(link.source.id) && activeCycle.has(link.target.id);
+                    const isHovered = hoverNode && !!focusRole;
+                    const isDimmed = (hoverNode || activeCycle) && !isHovered && !inActiveCycle;
+                    // WebGL has drawn every link that is not highlighted
+                    if (glLayer && !isHovered && !inActiveCycle) return;
+                    if (performanceMode && !isLinkInView(link)) return;
+                    const style = getLinkStyle(link);
+                    const isViolation = violationsByKey.has(linkKey(link));
+                    const rgb = isHovered ? focusColors[focusRole] : getLinkRgb(link);
+                    // Heavier links (many imports of the same file) are drawn thicker
+                    const weightScale = 1 + Math.log2(link.weight || 1) * 0.5;
                     
                     ctx.beginPath();
                     ctx.moveTo(link.source.x, link.source.y);
                     ctx.lineTo(link.target.x, link.target.y);
                     
-                    ctx.strokeStyle = isHovered ? '#ffffff' : (isDimmed ? 'rgba(255, 255, 255, 0.02)' : 'rgba(255, 255, 255, 0.15)');
-                    ctx.lineWidth = isHovered ? 2 / globalScale : 0.6 / globalScale;
+                    // Dashes and arrowheads are too small to make out when zoomed far out
+                    const showDetail = !performanceMode || globalScale >= detailScale || isHovered || inActiveCycle;
+                    ctx.setLineDash(showDetail ? style.dash.map(function(d) { return d / globalScale; }) : []);
+                    ctx.strokeStyle = isHovered || inActiveCycle ? 'rgb(' + rgb + ')' : (isDimmed ? 'rgba(255, 255, 255, 0.02)' : 'rgba(' + rgb + ', ' + (inCycle || isViolation ? 0.6 : 0.25) + ')');
+                    ctx.lineWidth = (isHovered || inActiveCycle ? 2 : 0.6) * weightScale / globalScale;
                     ctx.stroke();
 
                     if (isHovered) {
                         ctx.shadowBlur = 10;
-                        ctx.shadowColor = '#58a6ff';
+                        ctx.shadowColor = 'rgb(' + rgb + ')';
                         ctx.stroke();
                         ctx.shadowBlur = 0;
                     }
+                    ctx.setLineDash([]);
+
+                    if (!isDimmed && showDetail) {
+                        drawArrowHead(ctx, link, isHovered || inActiveCycle ? 'rgb(' + rgb + ')' : 'rgba(' + rgb + ', 0.45)', globalScale);
+                    }
                 })
                 .nodeCanvasObject(function(node, ctx, globalScale) {
                     // CRITICAL: Ensure coordinates are finite before drawing
                     if (!isFinite(node.x) || !isFinite(node.y)) return;
 
-                    const isHovered = hoverNode && (node === hoverNode || neighbors.has(node.id));
+                    const focusRole = focusNodes.get(node.id);
+                    const isHovered = hoverNode && (node === hoverNode || !!focusRole);
                     const isSearching = searchNode && node === searchNode;
-                    const isDimmed = (hoverNode || searchNode) && !isHovered && !isSearching;
+                    const inActiveCycle = activeCycle && activeCycle.has(node.id);
+                    const isDimmed = (hoverNode || searchNode || activeCycle) && !isHovered && !isSearching && !inActiveCycle;
                     
-                    const size = Math.sqrt(node.size || 1000) / 3;
-                    const color = getTypeColor(node.type);
-
-                    const twinkle = (Math.sin(Date.now() / 500 + (node.x || 0)) + 1) / 2;
-
-                    if (!isDimmed) {
-                        const r1 = size * 0.8;
-                        const r2 = size * (1.5 + twinkle * 0.5);
-                        // Ensure radii are valid positive numbers
-                        if (r1 > 0 && r2 > r1) {
-                            const gradient = ctx.createRadialGradient(node.x, node.y, r1, node.x, node.y, r2);
-                            gradient.addColorStop(0, color);
-                            gradient.addColorStop(1, 'rgba(0,0,0,0)');
-                            ctx.fillStyle = gradient;
-                            ctx.beginPath();
-                            ctx.arc(node.x, node.y, size * 3, 0, 2 * Math.PI);
-                            ctx.fill();
+                    const size = getNodeRadius(node);
+                    if (performanceMode && !isInView(node.x, node.y, size * 3)) return;
+                    const color = getNodeColor(node);
+
+                    // WebGL has drawn the star itself
+                    if (!glLayer) {
+                        if (!isDimmed && (!performanceMode || globalScale >= detailScale)) {
+                            // Performance mode holds the twinkle still so that a settled graph needs no redraws
+                            const twinkle = performanceMode ? 0.5 : (Math.sin(Date.now() / 500 + (node.x || 0)) + 1) / 2;
+                            const r1 = size * 0.8;
+                            const r2 = size * (1.5 + twinkle * 0.5);
+                            // Ensure radii are valid positive numbers
+                            if (r1 > 0 && r2 > r1) {
+                                const gradient = ctx.createRadialGradient(node.x, node.y, r1, node.x, node.y, r2);
+                                gradient.addColorStop(0, color);
+                                gradient.addColorStop(1, 'rgba(0,0,0,0)');
+                                ctx.fillStyle = gradient;
+                                ctx.beginPath();
+                                ctx.arc(node.x, node.y, size * 3, 0, 2 * Math.PI);
+                                ctx.fill();
+                            }
                         }
+
+                        ctx.beginPath();
+                        ctx.arc(node.x, node.y, size, 0, 2 * Math.PI, false);
+                        ctx.fillStyle = isDimmed ? 'rgba(255, 255, 255, 0.05)' : color;
+                        ctx.fill();
                     }
 
-                    ctx.beginPath();
-                    ctx.arc(node.x, node.y, size, 0, 2 * Math.PI, false);
-                    ctx.fillStyle = isDimmed ? 'rgba(255, 255, 255, 0.05)' : color;
-                    ctx.fill();
+                    if (node.type === 'folder' && !isDimmed) {
+                        ctx.beginPath();
+                        ctx.arc(node.x, node.y, size + 4 / globalScale, 0, 2 * Math.PI, false);
+                        ctx.setLineDash([3 / globalScale, 3 / globalScale]);
+                        ctx.strokeStyle = color;
+                        ctx.lineWidth = 1 / globalScale;
+                        ctx.stroke();
+                        ctx.setLineDash([]);
+                    }
                     
                     if (node === hoverNode || isSearching) {
                         ctx.beginPath();
@@ -615,16 +2237,39 @@ export class GraphPanel {
                         ctx.stroke();
                         
                         if (isSearching) {
-                            const pulse = (Math.sin(Date.now() / 200) + 1) / 2;
+                            const pulse = performanceMode ? 0.5 : (Math.sin(Date.now() / 200) + 1) / 2;
                             ctx.beginPath();
                             ctx.arc(node.x, node.y, size + (10 + pulse * 10) / globalScale, 0, 2 * Math.PI, false);
                             ctx.strokeStyle = 'rgba(255, 0, 85, ' + (0.3 - pulse * 0.3) + ')';
                             ctx.stroke();
                         }
+                    } else if (hoverNode && focusRole) {
+                        ctx.beginPath();
+                        ctx.arc(node.x, node.y, size + 2/globalScale, 0, 2 * Math.PI, false);
+                        ctx.strokeStyle = 'rgb(' + focusColors[focusRole] + ')';
+                        ctx.lineWidth = 1.5 / globalScale;
+                        ctx.stroke();
+                    }
+
+                    if (highlightedIds.has(node.id) && !isDimmed) {
+                        ctx.beginPath();
+                        ctx.arc(node.x, node.y, size + 6 / globalScale, 0, 2 * Math.PI, false);
+                        ctx.strokeStyle = '#ffd33d';
+                        ctx.lineWidth = 2 / globalScale;
+                        ctx.stroke();
                     }
 
-                    if (globalScale > 1.2 || isHovered || isSearching) {
-                        const alpha = globalScale > 1.2 ? Math.min(1, (globalScale - 1.2) * 2) : 1;
+                    // Pinned stars carry a small dot at their top right
+                    if (node.fx !== undefined && node.fx !== null && !isDimmed) {
+                        ctx.beginPath();
+                        ctx.arc(node.x + size * 0.75, node.y - size * 0.75, Math.max(size * 0.25, 2 / globalScale), 0, 2 * Math.PI, false);
+                        ctx.fillStyle = '#ffffff';
+                        ctx.fill();
+                    }
+
+                    const labelScale = performanceMode ? performanceLabelScale : 1.2;
+                    if (globalScale > labelScale || isHovered || isSearching) {
+                        const alpha = globalScale > labelScale ? Math.min(1, (globalScale - labelScale) * 2) : 1;
                         const fontSize = (isHovered || isSearching ? 15 : 12) / globalScale;
                         ctx.font = (isHovered || isSearching ? '800' : '500') + ' ' + fontSize + 'px var(--vscode-font-family)';
                         ctx.textAlign = 'center';
@@ -633,10 +2278,31 @@ export class GraphPanel {
                         ctx.fillText(node.name.toUpperCase(), node.x, node.y + size + fontSize + 4/globalScale);
                     }
                 })
-                .nodeCanvasObjectMode(function() { return 'replace'; });
+                .nodeCanvasObjectMode(function() { return 'replace'; })
+                .onRenderFramePre(function(ctx, globalScale) {
+                    viewBounds = getViewBounds(ctx);
+                    if (glLayer) drawGlLayer(ctx, globalScale);
+                })
+                .onEngineTick(function() {
+                    engineRunning = true;
+                })
+                .onEngineStop(function() {
+                    engineRunning = false;
+                    // A restored layout skipped the simulation; later drags and reheats run it again
+                    Graph.cooldownTicks(Infinity);
+                    saveLayout();
+                })
+                .onZoomEnd(persistState);
         }
 
+        setupMetricOptions();
+        renderViewOptions();
         initGraph();
+        // Toolbar and panel controls change what the paused canvas shows, and what a restored panel should show
+        ['input', 'change', 'click'].forEach(function(type) {
+            document.addEventListener(type, requestRedraw, true);
+            document.addEventListener(type, persistState, true);
+        });
 
         window.addEventListener('message', function(event) {
             const message = event.data;
@@ -646,29 +2312,754 @@ export class GraphPanel {
                     graphData = message.data;
                     const nodes = graphData.nodes;
                     const links = graphData.links;
-                    document.getElementById('stats').innerText = nodes.length + ' files detected • ' + links.length + ' links established';
                     
                     const nodeIds = new Set(nodes.map(function(n) { return n.id; }));
-                    const cleanLinks = links.filter(function(link, index, self) {
-                        const sourceId = typeof link.source === 'object' ? link.source.id : link.source;
-                        const targetId = typeof link.target === 'object' ? link.target.id : link.target;
-                        const firstIdx = self.findIndex(function(l) {
-                            return (typeof l.source === 'object' ? l.source.id : l.source) === sourceId && 
-                                   (typeof l.target === 'object' ? l.target.id : l.target) === targetId;
-                        });
-                        return index === firstIdx && nodeIds.has(sourceId) && nodeIds.has(targetId);
+                    const linkKeys = new Set();
+                    const cleanLinks = links.filter(function(link) {
+                        const key = linkKey(link);
+                        if (linkKeys.has(key) || !nodeIds.has(linkEndId(link.source)) || !nodeIds.has(linkEndId(link.target))) return false;
+                        linkKeys.add(key);
+                        return true;
                     });
 
-                    Graph.graphData({ nodes: nodes, links: cleanLinks });
+                    graphData = { nodes: nodes, links: cleanLinks };
+                    dataReceivedAt = Date.now();
+                    setRoots(message.roots);
+                    carryPositions(nodes);
+                    restoreLayout(nodes);
+                    Graph.graphData(graphData);
+                    applyRenderMode();
+                    setCycles(message.cycles);
+                    setMetrics(message.metrics);
+                    indexGitOverlay();
+                    indexViolations();
                     renderLegend();
-                    setTimeout(function() { Graph.zoomToFit(800, 50); }, 500);
+                    updateStats();
+                    renderConnections();
+                    if (pendingState) {
+                        // The panel was restored: bring back its zoom, filters and folder view
+                        const state = pendingState;
+                        pendingState = null;
+                        hasFitted = true;
+                        setTimeout(function() { applyView(state); }, 100);
+                        if (state.folderMode) {
+                            document.getElementById('folderMode').checked = true;
+                            setFolderMode(true);
+                        }
+                    } else if (!hasFitted) {
+                        // Later rescans keep the zoom the user chose
+                        hasFitted = true;
+                        setTimeout(function() { Graph.zoomToFit(800, 50); }, 500);
+                    }
+                    break;
+                case 'appendNodes':
+                    if (!Graph) return;
+                    appendNodes(message.nodes, message.reset);
+                    applyRenderMode();
+                    renderLegend();
+                    updateStats();
+                    break;
+                case 'setView':
+                    if (!Graph) return;
+                    setView(message.data);
+                    applyRenderMode();
+                    setCycles(message.cycles);
+                    setMetrics(message.metrics);
+                    indexGitOverlay();
+                    indexViolations();
+                    renderLegend();
+                    updateStats();
+                    renderConnections();
+                    break;
+                case 'applyDelta':
+                    if (!Graph) return;
+                    applyDelta(message.delta);
+                    applyRenderMode();
+                    setCycles(message.cycles);
+                    setMetrics(message.metrics);
+                    indexGitOverlay();
+                    indexViolations();
+                    renderLegend();
+                    updateStats();
+                    renderConnections();
+                    break;
+                case 'setMetrics':
+                    if (!Graph) return;
+                    setMetrics(message.metrics);
+                    renderLegend();
+                    requestRedraw();
+                    break;
+                case 'setViews':
+                    savedViews = message.views;
+                    renderViewOptions();
+                    break;
+                case 'restoreLayout':
+                    savedLayout = new Map(Object.entries(message.positions || {}));
+                    break;
+                case 'setRenderOptions':
+                    renderOptions = message.options;
+                    if (Graph) applyRenderMode();
+                    break;
+                case 'revealNode':
+                    if (!Graph) return;
+                    revealNode(message.id);
+                    break;
+                case 'setViolations':
+                    if (!Graph) return;
+                    violations = message.violations || [];
+                    indexViolations();
+                    break;
+                case 'gitOverlay':
+                    if (!Graph) return;
+                    setGitOverlay(message.overlay);
+                    break;
+                case 'showCycles':
+                    toggleCyclePanel(true);
+                    break;
+                case 'requestExport':
+                    exportGraph();
+                    break;
+                case 'captureSnapshot':
+                    captureSnapshot(message.options);
                     break;
             }
+            requestRedraw();
         });
 
+        function updateStats() {
+            let files = 0;
+            let folders = 0;
+            graphData.nodes.forEach(function(n) {
+                if (n.type === 'folder') {
+                    folders++;
+                    files += n.fileCount || 0;
+                } else {
+                    files++;
+                }
+            });
+            const shown = folderMode ? files + ' files in ' + folders + ' folders' : files + ' files';
+            let text = shown + ' detected • ' + graphData.links.length + ' links established';
+            if (gitMode === 'diff' && gitOverlay) {
+                text = 'Diff view: ' + diffChangedCount + ' changed • ' + (diffNodes.size - diffChangedCount) + ' direct dependents';
+            }
+            document.getElementById('stats').innerText = text;
+        }
+
+        function setMetrics(metrics) {
+            nodeMetrics = metrics || {};
+            metricMaxima = {};
+            Object.keys(metricDefinitions).forEach(function(key) {
+                metricMaxima[key] = d3.max(graphData.nodes, function(n) { return getMetric(n, key); }) || 0;
+            });
+            if (sizeMetric !== 'size') Graph.d3Force('collide').radius(getCollisionRadius);
+            renderHotspots();
+        }
+
+        function getMetric(node, key) {
+            const metrics = nodeMetrics[node.id];
+            return metrics ? metrics[key] : 0;
+        }
+
+        // Position of a node's metric between 0 and the largest value, on a square-root scale
+        function getMetricShare(node, key) {
+            return metricMaxima[key] ? Math.sqrt((getMetric(node, key) || 0) / metricMaxima[key]) : 0;
+        }
+
+        function formatMetric(key, value) {
+            if (key === 'orphan') return value ? '●' : '';
+            if (value === undefined) return '…';
+            return key === 'betweenness' ? value.toFixed(3) : String(value);
+        }
+
+        function getMetricsSummary(node) {
+            const metrics = nodeMetrics[node.id];
+            if (!metrics) return '';
+            const parts = Object.keys(metricDefinitions).filter(function(key) {
+                return metrics[key] !== undefined;
+            }).map(function(key) {
+                return metricDefinitions[key].label.toUpperCase() + ' ' + formatMetric(key, metrics[key]);
+            });
+            if (metrics.orphan) parts.push('<span class="orphan-badge">ORPHAN</span>');
+            return '<div class="tooltip-metrics">' + parts.join(' • ') + '</div>';
+        }
+
+        function setupMetricOptions() {
+            const sizeSelect = document.getElementById('sizeMetric');
+            const colorSelect = document.getElementById('colorMetric');
+            sizeSelect.add(new Option('SIZE: BYTES', 'size'));
+            colorSelect.add(new Option('COLOR: DEFAULT', ''));
+            Object.keys(metricDefinitions).forEach(function(key) {
+                const label = metricDefinitions[key].label.toUpperCase();
+                sizeSelect.add(new Option('SIZE: ' + label, key));
+                colorSelect.add(new Option('COLOR: ' + label, key));
+            });
+            colorSelect.add(new Option('COLOR: ORPHANS', 'orphan'));
+        }
+
+        function setSizeMetric(key) {
+            sizeMetric = key;
+            Graph.d3Force('collide').radius(getCollisionRadius);
+            Graph.d3ReheatSimulation();
+            syncDetailedMetrics();
+        }
+
+        function setColorMetric(key) {
+            colorMetric = key;
+            renderLegendTitle();
+            renderLegend();
+            syncDetailedMetrics();
+        }
+
+        function toggleHotspotPanel() {
+            const panel = document.getElementById('hotspot-panel');
+            panel.style.display = panel.style.display === 'block' ? 'none' : 'block';
+            renderHotspots();
+            syncDetailedMetrics();
+        }
+
+        function syncDetailedMetrics() {
+            const shown = document.getElementById('hotspot-panel').style.display === 'block'
+                || detailedMetrics.indexOf(sizeMetric) !== -1 || detailedMetrics.indexOf(colorMetric) !== -1;
+            if (shown !== detailedMetricsShown) {
+                detailedMetricsShown = shown;
+                vscode.postMessage({ command: 'setDetailedMetrics', enabled: shown });
+            }
+        }
+
+        function sortHotspots(key) {
+            hotspotSort = { key: key, descending: hotspotSort.key === key ? !hotspotSort.descending : key !== 'name' };
+            renderHotspots();
+        }
+
+        // Table of the top nodes by the chosen metric; click a header to sort, a row to focus the node
+        function renderHotspots() {
+            if (document.getElementById('hotspot-panel').style.display !== 'block') return;
+
+            const columns = [{ key: 'name', label: 'File', title: 'Path' }].concat(Object.keys(metricDefinitions).map(function(key) {
+                return { key: key, label: metricDefinitions[key].label, title: metricDefinitions[key].title };
+            }), [{ key: 'orphan', label: 'Orphan', title: 'Imported by nothing and not an entry point' }]);
+
+            const header = document.getElementById('hotspot-header');
+            header.innerHTML = '';
+            columns.forEach(function(column) {
+                const cell = document.createElement('th');
+                const arrow = hotspotSort.key === column.key ? (hotspotSort.descending ? ' ▾' : ' ▴') : '';
+                cell.innerText = column.label.toUpperCase() + arrow;
+                cell.title = column.title;
+                cell.onclick = function() { sortHotspots(column.key); };
+                header.appendChild(cell);
+            });
+
+            const key = hotspotSort.key;
+            const direction = hotspotSort.descending ? -1 : 1;
+            const sorted = graphData.nodes.slice().sort(function(a, b) {
+                const valueA = key === 'name' ? a.id : Number(getMetric(a, key) || 0);
+                const valueB = key === 'name' ? b.id : Number(getMetric(b, key) || 0);
+                if (valueA === valueB) return a.id < b.id ? -1 : 1;
+                return (valueA < valueB ? -1 : 1) * direction;
+            });
+
+            const body = document.getElementById('hotspot-rows');
+            body.innerHTML = '';
+            sorted.slice(0, hotspotLimit).forEach(function(node) {
+                const row = document.createElement('tr');
+                row.title = node.id;
+                columns.forEach(function(column) {
+                    const cell = document.createElement('td');
+                    cell.innerText = column.key === 'name' ? node.id : formatMetric(column.key, getMetric(node, column.key));
+                    row.appendChild(cell);
+                });
+                row.onclick = function() { focusNode(node); };
+                body.appendChild(row);
+            });
+        }
+
+        function focusNode(node) {
+            if (!isFinite(node.x) || !isFinite(node.y)) return;
+            Graph.centerAt(node.x, node.y, 800);
+            Graph.zoom(3, 800);
+            setFocus(node);
+        }
+
+        function setGitMode(mode) {
+            gitMode = mode;
+            document.getElementById('churnDays').style.display = mode === 'churn' ? '' : 'none';
+            if (!mode) {
+                gitOverlay = null;
+                vscode.postMessage({ command: 'clearGitOverlay' });
+            } else if (!gitOverlay) {
+                requestGitOverlay();
+                return;
+            }
+            indexGitOverlay();
+            if (mode === 'diff') fitToDiff();
+        }
+
+        function setChurnDays(value) {
+            churnDays = Number(value);
+            requestGitOverlay();
+        }
+
+        function requestGitOverlay() {
+            vscode.postMessage({ command: 'loadGitOverlay', days: churnDays });
+        }
+
+        // The extension answers with null when git could not be read
+        function setGitOverlay(overlay) {
+            const isFirst = !gitOverlay;
+            gitOverlay = overlay;
+            if (!overlay) {
+                gitMode = '';
+                document.getElementById('gitMode').value = '';
+                document.getElementById('churnDays').style.display = 'none';
+            }
+            indexGitOverlay();
+            if (isFirst && gitMode === 'diff') fitToDiff();
+        }
+
+        // Maps git info onto the visible nodes (a folder sums the files inside it) and
+        // collects the diff view: uncommitted files and the files importing them directly
+        function indexGitOverlay() {
+            gitInfoByNode = new Map();
+            maxChurn = 0;
+            diffNodes.clear();
+
+            if (gitOverlay) {
+                const visible = new Set(graphData.nodes.map(function(n) { return n.id; }));
+                Object.keys(gitOverlay.files).forEach(function(fileId) {
+                    const id = findVisibleId(fileId, visible);
+                    if (!id) return;
+
+                    const file = gitOverlay.files[fileId];
+                    let info = gitInfoByNode.get(id);
+                    if (!info) {
+                        info = { churn: 0, changedOnBranch: false, changedInWorkingTree: false };
+                        gitInfoByNode.set(id, info);
+                    }
+                    info.churn += file.churn;
+                    info.changedOnBranch = info.changedOnBranch || file.changedOnBranch;
+                    info.changedInWorkingTree = info.changedInWorkingTree || file.changedInWorkingTree;
+                    if (file.lastDate && (!info.lastDate || Date.parse(file.lastDate) > Date.parse(info.lastDate))) {
+                        info.lastDate = file.lastDate;
+                        info.lastAuthor = file.lastAuthor;
+                    }
+                    maxChurn = Math.max(maxChurn, info.churn);
+                });
+
+                gitInfoByNode.forEach(function(info, id) {
+                    if (info.changedInWorkingTree) diffNodes.add(id);
+                });
+                diffChangedCount = diffNodes.size;
+                graphData.links.forEach(function(link) {
+                    const target = gitInfoByNode.get(linkEndId(link.target));
+                    if (target && target.changedInWorkingTree) diffNodes.add(linkEndId(link.source));
+                });
+            }
+
+            Graph.nodeVisibility(isNodeVisible);
+            Graph.linkVisibility(isLinkVisible);
+            if (hoverNode && !isNodeVisible(hoverNode)) setFocus(null);
+            renderLegendTitle();
+            renderLegend();
+            updateStats();
+        }
+
+        // The node showing a file: the file itself or, in the folder view, its collapsed folder
+        function findVisibleId(fileId, visible) {
+            let id = fileId;
+            while (!visible.has(id) && id.lastIndexOf(pathSep) > 0) id = id.slice(0, id.lastIndexOf(pathSep));
+            return visible.has(id) ? id : null;
+        }
+
+        function indexViolations() {
+            violationsByKey = new Map();
+            const visible = new Set(graphData.nodes.map(function(n) { return n.id; }));
+            violations.forEach(function(violation) {
+                const source = findVisibleId(violation.source, visible);
+                const target = findVisibleId(violation.target, visible);
+                if (!source || !target || source === target) return;
+                const key = source + '->' + target;
+                if (!violationsByKey.has(key)) violationsByKey.set(key, []);
+                violationsByKey.get(key).push(violation);
+            });
+            renderLinkLegend();
+        }
+
+        function focusViolations() {
+            const ids = new Set();
+            violationsByKey.forEach(function(list, key) {
+                const link = graphData.links.find(function(l) { return linkKey(l) === key; });
+                if (!link) return;
+                ids.add(linkEndId(link.source));
+                ids.add(linkEndId(link.target));
+            });
+            if (ids.size > 0) Graph.zoomToFit(800, 80, function(node) { return ids.has(node.id); });
+        }
+
+        function fitToDiff() {
+            if (diffNodes.size > 0) Graph.zoomToFit(800, 80, isNodeVisible);
+        }
+
+        function getGitColor(node) {
+            const info = gitInfoByNode.get(node.id);
+            if (gitMode === 'churn') return info && info.churn ? d3.interpolatePlasma(0.25 + 0.75 * Math.sqrt(info.churn / maxChurn)) : gitColors.unchanged;
+            if (info && info.changedInWorkingTree) return gitColors.uncommitted;
+            if (gitMode === 'branch') return info && info.changedOnBranch ? gitColors.branch : gitColors.unchanged;
+            // Dependents in the diff view keep their usual color
+            return colorMode === 'root' ? rootColorScale(node.root) : getTypeColor(node.type);
+        }
+
+        function getGitSummary(node) {
+            const info = gitOverlay && gitInfoByNode.get(node.id);
+            if (!info) return '';
+            const parts = [];
+            if (info.lastDate) parts.push('LAST CHANGE ' + escapeHtml(info.lastAuthor || '?') + ', ' + new Date(info.lastDate).toLocaleDateString());
+            parts.push(info.churn + ' COMMITS IN ' + churnDays + ' DAYS');
+            if (info.changedOnBranch) parts.push('<span class="orphan-badge">CHANGED ON BRANCH</span>');
+            if (info.changedInWorkingTree) parts.push('<span class="orphan-badge">UNCOMMITTED</span>');
+            return '<div class="tooltip-metrics">' + parts.join(' • ') + '</div>';
+        }
+
+        function setEditorSync(enabled) {
+            vscode.postMessage({ command: 'setEditorSync', enabled: enabled });
+        }
+
+        // Centers on the node of a file opened in the editor, or on its folder in the folder view
+        function revealNode(fileId) {
+            // A fresh graph is still spreading out and about to be fitted to the screen
+            const wait = 700 - (Date.now() - dataReceivedAt);
+            if (wait > 0) {
+                setTimeout(function() { revealNode(fileId); }, wait);
+                return;
+            }
+            const id = findVisibleId(fileId, new Set(graphData.nodes.map(function(n) { return n.id; })));
+            const node = id && graphData.nodes.find(function(n) { return n.id === id; });
+            if (node && isNodeVisible(node)) focusNode(node);
+        }
+
+        function openNode(node) {
+            if (node.type === 'folder') return;
+            vscode.postMessage({ command: 'openFile', path: node.id });
+        }
+
+        // Opens the importing file with the import that created the link selected
+        function openLink(link) {
+            const sourceId = linkEndId(link.source);
+            const source = graphData.nodes.find(function(n) { return n.id === sourceId; });
+            if (!source || source.type === 'folder') return;
+            if (typeof link.line !== 'number') {
+                openNode(source);
+                return;
+            }
+            vscode.postMessage({
+                command: 'openImport',
+                path: sourceId,
+                line: link.line,
+                column: link.column,
+                endLine: link.endLine,
+                endColumn: link.endColumn
+            });
+        }
+
+        function showConnections(id) {
+            connectionsNodeId = id;
+            renderConnections();
+        }
+
+        // Lists what a node imports and what imports it; clicking an entry jumps to the import statement
+        function renderConnections() {
+            const panel = document.getElementById('connections-panel');
+            const node = connectionsNodeId && graphData.nodes.find(function(n) { return n.id === connectionsNodeId; });
+            if (!node) {
+                connectionsNodeId = null;
+                panel.style.display = 'none';
+                return;
+            }
+
+            const links = Graph.graphData().links.filter(isLinkVisible);
+            const groups = [
+                { label: 'IMPORTS', links: links.filter(function(l) { return linkEndId(l.source) === node.id; }), other: 'target' },
+                { label: 'IMPORTED BY', links: links.filter(function(l) { return linkEndId(l.target) === node.id; }), other: 'source' }
+            ];
+
+            document.getElementById('connections-title').innerText = 'Connections • ' + node.name;
+            const list = document.getElementById('connections-list');
+            list.innerHTML = '';
+            groups.forEach(function(group) {
+                const heading = document.createElement('div');
+                heading.className = 'connection-group';
+                heading.innerText = group.label + ' (' + group.links.length + ')';
+                list.appendChild(heading);
+
+                group.links.slice().sort(function(a, b) {
+                    return linkEndId(a[group.other]) < linkEndId(b[group.other]) ? -1 : 1;
+                }).forEach(function(link) {
+                    const item = document.createElement('div');
+                    item.className = 'connection-item';
+                    const where = typeof link.line === 'number' ? ' :' + (link.line + 1) : '';
+                    item.innerHTML = escapeHtml(linkEndId(link[group.other])) + '<span>' + escapeHtml(' ' + getLinkStyle(link).label + where) + '</span>';
+                    item.onclick = function() { openLink(link); };
+                    list.appendChild(item);
+                });
+            });
+            panel.style.display = 'block';
+        }
+
+        function setFolderMode(enabled) {
+            folderMode = enabled;
+            vscode.postMessage({ command: 'setFolderMode', enabled: enabled });
+        }
+
+        // Expands a folder star, or collapses the folder a star sits in (always with Shift)
+        function toggleFolder(node, collapse) {
+            if (node.type === 'folder' && !collapse) {
+                vscode.postMessage({ command: 'expandFolder', id: node.id });
+                return;
+            }
+            const end = node.id.lastIndexOf(pathSep);
+            if (end > 0) {
+                vscode.postMessage({ command: 'collapseFolder', id: node.id.slice(0, end) });
+            } else {
+                openNode(node);
+            }
+        }
+
+        // Replaces the graph, keeping known nodes in place. Nodes new to the view
+        // start where their folder was (expanding) or amid their former contents (collapsing).
+        function setView(data) {
+            const previous = new Map();
+            Graph.graphData().nodes.forEach(function(n) { previous.set(n.id, n); });
+
+            data.nodes.forEach(function(n) {
+                const anchor = previous.get(n.id) || findViewAnchor(n.id, previous);
+                if (!anchor) return;
+                const isSame = anchor.id === n.id;
+                n.x = anchor.x + (isSame ? 0 : (Math.random() - 0.5) * 40);
+                n.y = anchor.y + (isSame ? 0 : (Math.random() - 0.5) * 40);
+                if (isSame) {
+                    n.vx = anchor.vx;
+                    n.vy = anchor.vy;
+                    n.fx = anchor.fx;
+                    n.fy = anchor.fy;
+                }
+            });
+
+            graphData = data;
+            Graph.graphData(graphData);
+            setFocus(null);
+        }
+
+        // Shows files while the scan is still reading them; links arrive with updateData
+        function appendNodes(nodes, reset) {
+            const current = Graph.graphData();
+            carryPositions(nodes);
+            // A rescan streams files that are already on screen; only new ones are added
+            const known = new Set(reset ? [] : current.nodes.map(function(n) { return n.id; }));
+            const added = nodes.filter(function(n) { return !known.has(n.id); });
+            graphData = reset ? { nodes: nodes, links: [] } : { nodes: current.nodes.concat(added), links: current.links };
+            restoreLayout(graphData.nodes);
+            Graph.graphData(graphData);
+        }
+
+        // Nodes that are already on screen keep their place when new data for them arrives
+        function carryPositions(nodes) {
+            const previous = new Map();
+            Graph.graphData().nodes.forEach(function(n) { previous.set(n.id, n); });
+            nodes.forEach(function(n) {
+                const old = previous.get(n.id);
+                if (!old || old === n) return;
+                n.x = old.x;
+                n.y = old.y;
+                n.vx = old.vx;
+                n.vy = old.vy;
+                n.fx = old.fx;
+                n.fy = old.fy;
+            });
+        }
+
+        function findViewAnchor(id, previous) {
+            let folder = id;
+            while (folder.lastIndexOf(pathSep) > 0) {
+                folder = folder.slice(0, folder.lastIndexOf(pathSep));
+                if (previous.has(folder)) return previous.get(folder);
+            }
+
+            const inside = [];
+            previous.forEach(function(n, previousId) {
+                if (previousId.indexOf(id + pathSep) === 0 && isFinite(n.x) && isFinite(n.y)) inside.push(n);
+            });
+            if (inside.length === 0) return null;
+            return {
+                id: null,
+                x: d3.mean(inside, function(n) { return n.x; }),
+                y: d3.mean(inside, function(n) { return n.y; })
+            };
+        }
+
+        // Patches the current graph in place so untouched nodes keep their positions
+        function applyDelta(delta) {
+            const current = Graph.graphData();
+            const removedNodes = new Set(delta.removedNodes);
+            const nodesById = new Map();
+
+            const nodes = current.nodes.filter(function(n) { return !removedNodes.has(n.id); });
+            nodes.forEach(function(n) { nodesById.set(n.id, n); });
+            delta.updatedNodes.forEach(function(n) {
+                const existing = nodesById.get(n.id);
+                if (existing) Object.assign(existing, n);
+            });
+            delta.addedNodes.forEach(function(n) {
+                if (nodesById.has(n.id)) return;
+                nodes.push(n);
+                nodesById.set(n.id, n);
+            });
+
+            const removedLinks = new Set(delta.removedLinks.map(linkKey));
+            const linksByKey = new Map();
+            const links = current.links.filter(function(l) {
+                return !removedLinks.has(linkKey(l)) && nodesById.has(linkEndId(l.source)) && nodesById.has(linkEndId(l.target));
+            });
+            links.forEach(function(l) { linksByKey.set(linkKey(l), l); });
+            delta.addedLinks.forEach(function(l) {
+                const existing = linksByKey.get(linkKey(l));
+                if (existing) {
+                    existing.kind = l.kind;
+                    existing.weight = l.weight;
+                    existing.line = l.line;
+                    existing.column = l.column;
+                    existing.endLine = l.endLine;
+                    existing.endColumn = l.endColumn;
+                } else if (nodesById.has(l.source) && nodesById.has(l.target)) {
+                    links.push(l);
+                }
+            });
+
+            graphData = { nodes: nodes, links: links };
+            Graph.graphData(graphData);
+            setFocus(hoverNode && nodesById.has(hoverNode.id) ? hoverNode : null);
+        }
+
         function refresh() {
             vscode.postMessage({ command: 'refresh' });
         }
+
+        // The extension serializes the graph; it only needs to know what is hidden here
+        function getFilters() {
+            const filters = { hiddenLinkKinds: Array.from(hiddenLinkKinds) };
+            if (gitMode === 'diff' && gitOverlay) {
+                filters.visibleNodeIds = graphData.nodes.filter(isNodeVisible).map(function(n) { return n.id; });
+            }
+            return filters;
+        }
+
+        function exportGraph() {
+            vscode.postMessage({ command: 'exportGraph', filters: getFilters() });
+        }
+
+        // The extension asks what to capture and saves what is rendered here
+        function requestSnapshot() {
+            vscode.postMessage({ command: 'snapshot' });
+        }
+
+        function captureSnapshot(options) {
+            if (options.format === 'svg') {
+                vscode.postMessage({ command: 'saveSnapshot', format: 'svg', data: renderSvg() });
+                return;
+            }
+            if (options.area === 'view') {
+                vscode.postMessage({ command: 'saveSnapshot', format: 'png', data: renderPng() });
+                return;
+            }
+
+            // Resize the canvas to the requested pixels, fit the graph, capture, then restore the view
+            const width = Graph.width();
+            const height = Graph.height();
+            const center = Graph.centerAt();
+            const zoom = Graph.zoom();
+            const ratio = window.devicePixelRatio || 1;
+            Graph.width(options.width / ratio).height(options.height / ratio);
+            setTimeout(function() {
+                Graph.zoomToFit(0, 40);
+                setTimeout(function() {
+                    const data = renderPng();
+                    Graph.width(width).height(height);
+                    Graph.centerAt(center.x, center.y, 0);
+                    Graph.zoom(zoom, 0);
+                    vscode.postMessage({ command: 'saveSnapshot', format: 'png', data: data });
+                }, 200);
+            }, 50);
+        }
+
+        // The graph canvas is transparent, so paint the panel background under it
+        function renderPng() {
+            const source = document.querySelector('#graph .force-graph-container canvas');
+            const canvas = document.createElement('canvas');
+            canvas.width = source.width;
+            canvas.height = source.height;
+            const ctx = canvas.getContext('2d');
+            const gradient = ctx.createRadialGradient(canvas.width / 2, canvas.height / 2, 0, canvas.width / 2, canvas.height / 2, Math.max(canvas.width, canvas.height) / 2);
+            gradient.addColorStop(0, '#0a0a14');
+            gradient.addColorStop(1, '#050508');
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            if (glLayer) ctx.drawImage(glLayer.canvas, 0, 0);
+            ctx.drawImage(source, 0, 0);
+            return canvas.toDataURL('image/png');
+        }
+
+        // Redraws the whole graph as vector shapes at zoom level 1, without hover or glow effects
+        function renderSvg() {
+            const nodes = graphData.nodes.filter(function(n) { return isNodeVisible(n) && isFinite(n.x) && isFinite(n.y); });
+            const nodeIds = new Set(nodes.map(function(n) { return n.id; }));
+            const links = graphData.links.filter(function(l) {
+                return isLinkVisible(l) && typeof l.source === 'object' && nodeIds.has(l.source.id) && nodeIds.has(l.target.id);
+            });
+
+            const padding = 40;
+            let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+            nodes.forEach(function(n) {
+                const r = getNodeRadius(n);
+                minX = Math.min(minX, n.x - r - padding);
+                maxX = Math.max(maxX, n.x + r + padding);
+                minY = Math.min(minY, n.y - r - padding);
+                maxY = Math.max(maxY, n.y + r + 20 + padding);
+            });
+            if (!nodes.length) {
+                minX = minY = 0;
+                maxX = maxY = 100;
+            }
+            const width = maxX - minX;
+            const height = maxY - minY;
+            const round = function(v) { return Math.round(v * 100) / 100; };
+
+            const parts = [
+                '<svg xmlns="http://www.w3.org/2000/svg" viewBox="' + [minX, minY, width, height].map(round).join(' ') + '" width="' + round(width) + '" height="' + round(height) + '">',
+                '<rect x="' + round(minX) + '" y="' + round(minY) + '" width="' + round(width) + '" height="' + round(height) + '" fill="#050508"/>',
+                '<g fill="none">'
+            ];
+            links.forEach(function(link) {
+                const style = getLinkStyle(link);
+                const rgb = getLinkRgb(link);
+                const weightScale = 1 + Math.log2(link.weight || 1) * 0.5;
+                parts.push('<line x1="' + round(link.source.x) + '" y1="' + round(link.source.y) + '" x2="' + round(link.target.x) + '" y2="' + round(link.target.y) +
+                    '" stroke="rgb(' + rgb + ')" stroke-opacity="0.5" stroke-width="' + round(weightScale) + '"' +
+                    (style.dash.length ? ' stroke-dasharray="' + style.dash.join(' ') + '"' : '') + '/>');
+                const head = getArrowHead(link, 1);
+                if (head) {
+                    parts.push('<polygon points="' + head.map(function(p) { return round(p[0]) + ',' + round(p[1]); }).join(' ') + '" fill="rgb(' + rgb + ')" fill-opacity="0.6"/>');
+                }
+            });
+            parts.push('</g>');
+            nodes.forEach(function(n) {
+                parts.push('<circle cx="' + round(n.x) + '" cy="' + round(n.y) + '" r="' + round(getNodeRadius(n)) + '" fill="' + getNodeColor(n) + '"/>');
+            });
+            parts.push('<g font-family="Segoe UI, Roboto, Helvetica, Arial, sans-serif" font-size="12" fill="#ffffff" fill-opacity="0.9" text-anchor="middle">');
+            nodes.forEach(function(n) {
+                parts.push('<text x="' + round(n.x) + '" y="' + round(n.y + getNodeRadius(n) + 14) + '">' + escapeHtml(n.name.toUpperCase()) + '</text>');
+            });
+            parts.push('</g>', '</svg>');
+            return parts.join('');
+        }
     </script>
 </body>
 </html>`;
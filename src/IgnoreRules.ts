@@ -0,0 +1,197 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import ignore, { Ignore } from 'ignore';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Ignore files read in every directory. `.ignore` (used by ripgrep and
+ * similar tools) comes last, so it overrides `.gitignore` next to it.
+ */
+export const ignoreFileNames = ['.gitignore', '.ignore'];
+
+/**
+ * IgnoreRules decides which paths below a scanned root are ignored, like
+ * `git check-ignore` does. Rules stack per directory: the ignore files of a
+ * directory are read the first time a path below it is checked, and their
+ * patterns are rewritten relative to the repository so that a single
+ * last-match-wins list holds them in git's order of precedence:
+ * `core.excludesFile`, `.git/info/exclude`, then the ignore files from the
+ * repository root down. Nested files can therefore re-include what a
+ * parent excluded, but nothing below an ignored directory.
+ */
+export class IgnoreRules {
+    private rootPath: string;
+    private basePath: string;
+    private rules: Ignore;
+    private loaded: Set<string> = new Set();
+    private enabled: boolean;
+
+    private constructor(rootPath: string, basePath: string, enabled: boolean) {
+        this.rootPath = rootPath;
+        this.basePath = basePath;
+        this.enabled = enabled;
+        // Git compares case-insensitively where the file system usually does
+        this.rules = ignore({ ignorecase: process.platform === 'win32' || process.platform === 'darwin' });
+    }
+
+    /**
+     * Reads the repository-wide ignore rules that apply to a root, and the
+     * ignore files of the directories between the repository and the root.
+     */
+    public static async load(rootPath: string): Promise<IgnoreRules> {
+        const repositoryRoot = findRepositoryRoot(rootPath);
+        const rules = new IgnoreRules(rootPath, repositoryRoot || rootPath, true);
+        if (repositoryRoot) {
+            const gitDir = findGitDir(repositoryRoot);
+            rules.addFile(await findExcludesFile(repositoryRoot), '');
+            if (gitDir) {
+                rules.addFile(path.join(gitDir, 'info', 'exclude'), '');
+            }
+            if (rootPath !== repositoryRoot) {
+                rules.loadDirectories(path.dirname(rootPath));
+            }
+        }
+        return rules;
+    }
+
+    /**
+     * Rules that ignore nothing.
+     */
+    public static none(rootPath: string): IgnoreRules {
+        return new IgnoreRules(rootPath, rootPath, false);
+    }
+
+    /**
+     * @param relativePath Path below the root, with platform separators.
+     * @param isDirectory Patterns ending in `/` only match directories.
+     */
+    public ignores(relativePath: string, isDirectory: boolean): boolean {
+        if (!this.enabled || !relativePath) {
+            return false;
+        }
+        const fullPath = path.join(this.rootPath, relativePath);
+        this.loadDirectories(path.dirname(fullPath));
+        return this.rules.ignores(toSlashes(path.relative(this.basePath, fullPath)) + (isDirectory ? '/' : ''));
+    }
+
+    /**
+     * Reads the ignore files of `dir` and of every directory above it, up to the base, parents first.
+     */
+    private loadDirectories(dir: string) {
+        const pending: string[] = [];
+        for (let current = dir; !this.loaded.has(current); current = path.dirname(current)) {
+            pending.unshift(current);
+            if (current === this.basePath || current === path.dirname(current)) {
+                break;
+            }
+        }
+        for (const current of pending) {
+            this.loaded.add(current);
+            const prefix = toSlashes(path.relative(this.basePath, current));
+            ignoreFileNames.forEach(name => this.addFile(path.join(current, name), prefix));
+        }
+    }
+
+    private addFile(file: string, prefix: string) {
+        let content: string;
+        try {
+            content = fs.readFileSync(file, 'utf-8');
+        } catch {
+            return;
+        }
+        const patterns = content.split(/\r?\n/)
+            .map(line => rebasePattern(line, prefix))
+            .filter((pattern): pattern is string => pattern !== undefined);
+        this.rules.add(patterns);
+    }
+}
+
+/**
+ * Rewrites a line of an ignore file found in the directory `prefix`
+ * (`/`-separated, relative to the repository) so that it matches the same
+ * paths when given paths relative to the repository.
+ * @returns Undefined for blank lines and comments.
+ */
+export function rebasePattern(line: string, prefix: string): string | undefined {
+    if (!line.trim() || line.startsWith('#')) {
+        return undefined;
+    }
+    if (!prefix) {
+        return line;
+    }
+
+    const negated = line.startsWith('!');
+    // Unescaped trailing whitespace is not part of the pattern
+    let pattern = (negated ? line.slice(1) : line).replace(/([^\\])[ \t]+$/, '$1');
+    const directoryOnly = pattern.endsWith('/');
+    if (directoryOnly) {
+        pattern = pattern.slice(0, -1);
+    }
+    // A slash at the start or in the middle anchors the pattern to its directory
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\//, '');
+    if (!pattern) {
+        return undefined;
+    }
+    return (negated ? '!' : '') + prefix + '/' + (anchored ? '' : '**/') + pattern + (directoryOnly ? '/' : '');
+}
+
+function toSlashes(relativePath: string): string {
+    return relativePath.split(path.sep).join('/');
+}
+
+/**
+ * Walks up from a directory to the nearest one holding `.git`.
+ */
+function findRepositoryRoot(fromDir: string): string | undefined {
+    for (let dir = fromDir; ; dir = path.dirname(dir)) {
+        if (fs.existsSync(path.join(dir, '.git'))) {
+            return dir;
+        }
+        if (dir === path.dirname(dir)) {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Resolves `.git` files of worktrees and submodules to the directory that
+ * holds `info/exclude`.
+ */
+function findGitDir(repositoryRoot: string): string | undefined {
+    const dotGit = path.join(repositoryRoot, '.git');
+    try {
+        let gitDir = dotGit;
+        if (fs.statSync(dotGit).isFile()) {
+            const match = /^gitdir:\s*(.+)$/m.exec(fs.readFileSync(dotGit, 'utf-8'));
+            if (!match) {
+                return undefined;
+            }
+            gitDir = path.resolve(repositoryRoot, match[1].trim());
+        }
+        const commonDir = path.join(gitDir, 'commondir');
+        return fs.existsSync(commonDir) ? path.resolve(gitDir, fs.readFileSync(commonDir, 'utf-8').trim()) : gitDir;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Asks git for `core.excludesFile`, falling back to git's default location
+ * when it is unset or git cannot be run.
+ */
+async function findExcludesFile(repositoryRoot: string): Promise<string> {
+    try {
+        const { stdout } = await execFileAsync('git', ['config', '--path', '--get', 'core.excludesFile'], { cwd: repositoryRoot });
+        if (stdout.trim()) {
+            return path.resolve(repositoryRoot, stdout.trim());
+        }
+    } catch {
+        // Unset (git exits with 1) or git is not installed
+    }
+    return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'git', 'ignore');
+}
@@ -0,0 +1,50 @@
+import * as path from 'path';
+import { LanguageAnalyzer } from './types';
+
+/**
+ * LanguageRegistry holds the analyzers the scanner consults. Analyzers
+ * registered later take precedence, so contributed analyzers can replace
+ * built-in ones.
+ */
+export class LanguageRegistry {
+    private analyzers: LanguageAnalyzer[];
+
+    constructor(analyzers: LanguageAnalyzer[] = []) {
+        this.analyzers = [...analyzers];
+    }
+
+    /**
+     * Adds an analyzer.
+     * @returns A handle that removes the analyzer again.
+     */
+    public register(analyzer: LanguageAnalyzer): { dispose(): void } {
+        this.analyzers.push(analyzer);
+        return {
+            dispose: () => {
+                const index = this.analyzers.indexOf(analyzer);
+                if (index !== -1) {
+                    this.analyzers.splice(index, 1);
+                }
+            }
+        };
+    }
+
+    /**
+     * Returns the analyzer responsible for a file, or undefined when the file is not part of the graph.
+     */
+    public getAnalyzer(fileName: string): LanguageAnalyzer | undefined {
+        for (let i = this.analyzers.length - 1; i >= 0; i--) {
+            if (this.analyzers[i].matches(fileName)) {
+                return this.analyzers[i];
+            }
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Builds a file matcher for a list of extensions (case-insensitive).
+ */
+export function byExtension(...extensions: string[]): (fileName: string) => boolean {
+    return fileName => extensions.includes(path.extname(fileName).toLowerCase());
+}
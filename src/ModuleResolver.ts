@@ -0,0 +1,411 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * The subset of compiler options that affects module resolution, with
+ * `baseUrl` and the `paths` base already made absolute.
+ */
+interface PathOptions {
+    baseUrl?: string;
+    paths?: Record<string, string[]>;
+    pathsBase?: string;
+}
+
+/**
+ * The package.json fields used for resolution. Anything but `name` may
+ * hold a value of the wrong type and is checked before use.
+ */
+interface PackageManifest {
+    name: string;
+    exports?: unknown;
+    source?: unknown;
+    module?: unknown;
+    main?: unknown;
+    types?: unknown;
+    typings?: unknown;
+}
+
+/**
+ * The tsconfig/jsconfig fields used for resolution, unchecked as read.
+ */
+interface ConfigFile {
+    extends?: unknown;
+    compilerOptions?: unknown;
+}
+
+/**
+ * A package.json found inside the workspace.
+ */
+interface WorkspacePackage {
+    name: string;
+    dir: string;
+    manifest: PackageManifest;
+}
+
+const configFileNames = ['tsconfig.json', 'jsconfig.json'];
+const implicitExtensions = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.css', '.scss'];
+const exportConditions = ['source', 'types', 'import', 'module', 'require', 'node', 'default'];
+
+/**
+ * ModuleResolver maps import specifiers to files inside the scanned roots.
+ * Besides relative imports it understands tsconfig/jsconfig `baseUrl` and
+ * `paths` (following `extends` chains, nearest config wins) and
+ * workspace-local packages resolved through their package.json
+ * `exports`/`main` fields. Imports may cross from one root into another.
+ */
+export class ModuleResolver {
+    private roots: string[];
+    private isKnownFile: (fullPath: string) => boolean;
+    private dirConfigs: Map<string, PathOptions | undefined> = new Map();
+    private packages: Map<string, WorkspacePackage> = new Map();
+
+    /**
+     * @param roots Absolute paths of the scanned folders.
+     * @param isKnownFile Returns true when an absolute path is a node of the graph.
+     */
+    constructor(roots: string[], isKnownFile: (fullPath: string) => boolean) {
+        this.roots = roots;
+        this.isKnownFile = isKnownFile;
+    }
+
+    /**
+     * Records a package.json so that imports of its package name resolve
+     * into the workspace instead of node_modules.
+     */
+    public registerPackage(manifestPath: string, content: string) {
+        try {
+            const manifest: PackageManifest | null = JSON.parse(content);
+            if (manifest && typeof manifest.name === 'string') {
+                this.packages.set(manifest.name, { name: manifest.name, dir: path.dirname(manifestPath), manifest });
+            }
+        } catch {
+            // Malformed manifests simply do not contribute a package.
+        }
+    }
+
+    /**
+     * Forgets the package declared by a manifest that was deleted or changed.
+     */
+    public unregisterPackage(manifestPath: string) {
+        const dir = path.dirname(manifestPath);
+        for (const [name, pkg] of this.packages) {
+            if (pkg.dir === dir) {
+                this.packages.delete(name);
+            }
+        }
+    }
+
+    /**
+     * Drops cached tsconfig/jsconfig lookups so edited configs are read again.
+     */
+    public clearConfigCache() {
+        this.dirConfigs.clear();
+    }
+
+    /**
+     * Resolves an import specifier written in `fromFile`.
+     * @returns The absolute path of the target, or undefined when it is external or missing.
+     */
+    public resolve(specifier: string, fromFile: string): string | undefined {
+        const dir = path.dirname(fromFile);
+
+        if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+            return this.resolveFile(path.resolve(dir, specifier));
+        }
+
+        const options = this.getPathOptions(dir);
+        if (options) {
+            const mapped = this.resolveWithPaths(specifier, options);
+            if (mapped) {
+                return mapped;
+            }
+            if (options.baseUrl) {
+                const fromBase = this.resolveFile(path.join(options.baseUrl, specifier));
+                if (fromBase) {
+                    return fromBase;
+                }
+            }
+        }
+
+        return this.resolvePackageImport(specifier);
+    }
+
+    /**
+     * Tries the specifier against every matching `paths` pattern, most specific first.
+     */
+    private resolveWithPaths(specifier: string, options: PathOptions): string | undefined {
+        const base = options.baseUrl || options.pathsBase;
+        if (!options.paths || !base) {
+            return undefined;
+        }
+
+        const matches: { prefixLength: number; substitution: string; targets: string[] }[] = [];
+        for (const [pattern, targets] of Object.entries(options.paths)) {
+            if (!Array.isArray(targets)) { continue; }
+            const star = pattern.indexOf('*');
+            if (star === -1) {
+                if (pattern === specifier) {
+                    matches.push({ prefixLength: Number.MAX_SAFE_INTEGER, substitution: '', targets });
+                }
+                continue;
+            }
+            const prefix = pattern.slice(0, star);
+            const suffix = pattern.slice(star + 1);
+            if (specifier.length >= prefix.length + suffix.length && specifier.startsWith(prefix) && specifier.endsWith(suffix)) {
+                matches.push({
+                    prefixLength: prefix.length,
+                    substitution: specifier.slice(prefix.length, specifier.length - suffix.length),
+                    targets
+                });
+            }
+        }
+
+        matches.sort((a, b) => b.prefixLength - a.prefixLength);
+        for (const match of matches) {
+            for (const target of match.targets) {
+                const resolved = this.resolveFile(path.resolve(base, target.replace('*', match.substitution)));
+                if (resolved) {
+                    return resolved;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Resolves `name` or `name/sub/path` against workspace packages.
+     */
+    private resolvePackageImport(specifier: string): string | undefined {
+        const segments = specifier.split('/');
+        const nameLength = specifier.startsWith('@') ? 2 : 1;
+        const pkg = this.packages.get(segments.slice(0, nameLength).join('/'));
+        if (!pkg) {
+            return undefined;
+        }
+
+        const rest = segments.slice(nameLength).join('/');
+        const subpath = rest ? './' + rest : '.';
+        const candidates: string[] = [];
+
+        if (pkg.manifest.exports !== undefined) {
+            candidates.push(...this.matchExports(pkg.manifest.exports, subpath));
+        }
+        if (subpath === '.') {
+            for (const field of ['source', 'module', 'main', 'types', 'typings'] as const) {
+                const target = pkg.manifest[field];
+                if (typeof target === 'string') {
+                    candidates.push(target);
+                }
+            }
+            // Workspace packages often point `main` at build output that is not scanned.
+            candidates.push('./src/index', './index');
+        } else {
+            candidates.push(subpath, './src/' + rest);
+        }
+
+        for (const candidate of candidates) {
+            const resolved = this.resolveFile(path.resolve(pkg.dir, candidate));
+            if (resolved) {
+                return resolved;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the targets an `exports` field declares for a subpath, in condition preference order.
+     */
+    private matchExports(exportsField: unknown, subpath: string): string[] {
+        if (typeof exportsField !== 'string' && (!exportsField || typeof exportsField !== 'object')) {
+            return [];
+        }
+
+        // A bare target or a conditions object is shorthand for the "." entry.
+        let map = exportsField as Record<string, unknown>;
+        const isShorthand = typeof exportsField === 'string' || Array.isArray(exportsField)
+            || Object.keys(exportsField).every(k => !k.startsWith('.'));
+        if (isShorthand) {
+            map = {};
+            map['.'] = exportsField;
+        }
+
+        if (map[subpath] !== undefined) {
+            return this.collectExportTargets(map[subpath]);
+        }
+
+        const wildcards = Object.keys(map)
+            .filter(key => key.includes('*'))
+            .sort((a, b) => b.indexOf('*') - a.indexOf('*'));
+        for (const key of wildcards) {
+            const star = key.indexOf('*');
+            const prefix = key.slice(0, star);
+            const suffix = key.slice(star + 1);
+            if (subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= key.length - 1) {
+                const substitution = subpath.slice(prefix.length, subpath.length - suffix.length);
+                return this.collectExportTargets(map[key]).map(t => t.split('*').join(substitution));
+            }
+        }
+        return [];
+    }
+
+    private collectExportTargets(value: unknown): string[] {
+        if (typeof value === 'string') {
+            return [value];
+        }
+        if (Array.isArray(value)) {
+            return value.flatMap(v => this.collectExportTargets(v));
+        }
+        if (value && typeof value === 'object') {
+            const conditions = value as Record<string, unknown>;
+            const known = exportConditions.filter(c => c in conditions);
+            const others = Object.keys(conditions).filter(c => !exportConditions.includes(c));
+            return [...known, ...others].flatMap(c => this.collectExportTargets(conditions[c]));
+        }
+        return [];
+    }
+
+    /**
+     * Maps an absolute path (with or without extension) to a graph file.
+     */
+    private resolveFile(absolutePath: string): string | undefined {
+        if (!this.findRoot(absolutePath)) {
+            return undefined;
+        }
+
+        const candidates = [absolutePath];
+        // TypeScript ESM sources import their own compiled name (`./util.js` for `util.ts`).
+        const jsExt = /\.(m|c)?jsx?$/.exec(absolutePath);
+        if (jsExt) {
+            const stem = absolutePath.slice(0, -jsExt[0].length);
+            const tsExt = jsExt[0].replace('js', 'ts');
+            candidates.push(stem + tsExt, stem + '.tsx');
+        }
+        for (const ext of implicitExtensions) {
+            candidates.push(absolutePath + ext);
+        }
+        for (const ext of implicitExtensions) {
+            candidates.push(path.join(absolutePath, 'index' + ext));
+        }
+
+        return candidates.find(candidate => this.isKnownFile(candidate));
+    }
+
+    /**
+     * Returns the innermost scanned root containing a path.
+     */
+    private findRoot(fullPath: string): string | undefined {
+        return this.roots
+            .filter(root => fullPath === root || fullPath.startsWith(root + path.sep))
+            .sort((a, b) => b.length - a.length)[0];
+    }
+
+    /**
+     * Finds the path options that apply to files in `dir` by walking up to the nearest config file.
+     */
+    private getPathOptions(dir: string): PathOptions | undefined {
+        if (this.dirConfigs.has(dir)) {
+            return this.dirConfigs.get(dir);
+        }
+
+        let options: PathOptions | undefined;
+        const configPath = configFileNames
+            .map(name => path.join(dir, name))
+            .find(p => fs.existsSync(p));
+
+        if (configPath) {
+            options = this.loadConfig(configPath, new Set());
+        } else {
+            const parent = path.dirname(dir);
+            const root = this.findRoot(dir);
+            options = root && dir !== root && parent !== dir
+                ? this.getPathOptions(parent)
+                : undefined;
+        }
+
+        this.dirConfigs.set(dir, options);
+        return options;
+    }
+
+    /**
+     * Reads a tsconfig/jsconfig and the configs it extends. Later configs override earlier ones.
+     */
+    private loadConfig(configPath: string, seen: Set<string>): PathOptions {
+        seen.add(configPath);
+        const config: unknown = ts.readConfigFile(configPath, ts.sys.readFile).config;
+        if (!isObject(config)) {
+            return {};
+        }
+        const { extends: extendsField, compilerOptions }: ConfigFile = config;
+
+        const configDir = path.dirname(configPath);
+        let options: PathOptions = {};
+
+        const parents: unknown[] = Array.isArray(extendsField) ? extendsField : [extendsField];
+        for (const parent of parents) {
+            if (typeof parent !== 'string') { continue; }
+            const parentPath = this.resolveExtends(parent, configDir);
+            if (parentPath && !seen.has(parentPath)) {
+                options = { ...options, ...this.loadConfig(parentPath, seen) };
+            }
+        }
+
+        if (!isObject(compilerOptions)) {
+            return options;
+        }
+        if (typeof compilerOptions.baseUrl === 'string') {
+            options.baseUrl = path.resolve(configDir, compilerOptions.baseUrl);
+        }
+        if (isObject(compilerOptions.paths)) {
+            // Entries whose targets are not a list of strings are skipped, as tsc reports them
+            const paths: Record<string, string[]> = {};
+            for (const [pattern, targets] of Object.entries(compilerOptions.paths)) {
+                if (Array.isArray(targets) && targets.every(target => typeof target === 'string')) {
+                    paths[pattern] = targets;
+                }
+            }
+            options.paths = paths;
+            options.pathsBase = configDir;
+        }
+        return options;
+    }
+
+    /**
+     * Locates the file referenced by an `extends` entry, either a path or a package in node_modules.
+     */
+    private resolveExtends(reference: string, configDir: string): string | undefined {
+        const withJson = (p: string) => [p, p + '.json', path.join(p, 'tsconfig.json')];
+
+        if (reference.startsWith('.') || path.isAbsolute(reference)) {
+            return withJson(path.resolve(configDir, reference)).find(p => this.isFile(p));
+        }
+
+        let dir = configDir;
+        while (true) {
+            const found = withJson(path.join(dir, 'node_modules', reference)).find(p => this.isFile(p));
+            if (found) {
+                return found;
+            }
+            const parent = path.dirname(dir);
+            if (parent === dir) {
+                return undefined;
+            }
+            dir = parent;
+        }
+    }
+
+    private isFile(filePath: string): boolean {
+        try {
+            return fs.statSync(filePath).isFile();
+        } catch {
+            return false;
+        }
+    }
+}
+
+/**
+ * True for JSON objects, as opposed to arrays, null and primitives.
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ModuleResolver } from './ModuleResolver';
+import { ResolveContext } from './types';
+
+/**
+ * ProjectFiles indexes the scanned files by directory and by name, and
+ * caches the project manifests (go.mod, composer.json, Cargo.toml, ...)
+ * that language analyzers consult. It is the ResolveContext the scanner
+ * hands to analyzers and only answers questions about files inside the
+ * scanned roots.
+ */
+export class ProjectFiles implements ResolveContext {
+    public readonly roots: string[];
+    /** Absolute directories searched for `#include` targets. */
+    public readonly includeDirs: string[];
+    /** Absolute extra Python source roots. */
+    public readonly pythonPaths: string[];
+    private byDir: Map<string, Set<string>> = new Map();
+    private byName: Map<string, Set<string>> = new Map();
+    private configs: Map<string, unknown> = new Map();
+    private foundConfigs: Map<string, string | undefined> = new Map();
+    private modules: ModuleResolver;
+
+    /**
+     * @param roots Absolute paths of the scanned folders.
+     * @param includeDirs C/C++ include directories.
+     * @param pythonPaths Python source roots.
+     * Relative directories are resolved against every root.
+     */
+    constructor(roots: string[], includeDirs: string[] = [], pythonPaths: string[] = []) {
+        this.roots = roots;
+        const resolveDirs = (dirs: string[]) => dirs.flatMap(dir =>
+            path.isAbsolute(dir) ? [dir] : roots.map(root => path.resolve(root, dir)));
+        this.includeDirs = resolveDirs(includeDirs);
+        this.pythonPaths = resolveDirs(pythonPaths);
+        this.modules = this.createModuleResolver();
+    }
+
+    private createModuleResolver(): ModuleResolver {
+        return new ModuleResolver(this.roots, fullPath => this.isKnownFile(fullPath));
+    }
+
+    public add(fullPath: string) {
+        this.addTo(this.byDir, path.dirname(fullPath), fullPath);
+        this.addTo(this.byName, path.basename(fullPath), fullPath);
+    }
+
+    public delete(fullPath: string) {
+        this.byDir.get(path.dirname(fullPath))?.delete(fullPath);
+        this.byName.get(path.basename(fullPath))?.delete(fullPath);
+    }
+
+    public clear() {
+        this.byDir.clear();
+        this.byName.clear();
+        this.configs.clear();
+        this.foundConfigs.clear();
+        this.modules = this.createModuleResolver();
+    }
+
+    public isKnownFile(fullPath: string): boolean {
+        return !!this.byDir.get(path.dirname(fullPath))?.has(fullPath);
+    }
+
+    /**
+     * Scanned files directly inside a directory, sorted by path.
+     */
+    public inDirectory(dir: string): string[] {
+        return [...(this.byDir.get(dir) || [])].sort();
+    }
+
+    /**
+     * Scanned files with the given file name anywhere in the roots, sorted by path.
+     */
+    public named(fileName: string): string[] {
+        return [...(this.byName.get(fileName) || [])].sort();
+    }
+
+    /**
+     * Directories holding scanned files whose path ends with `suffix` (e.g. `/com/acme/util`).
+     */
+    public directoriesEndingWith(suffix: string): string[] {
+        return [...this.byDir.keys()].filter(dir => dir.endsWith(suffix) && this.byDir.get(dir)!.size > 0);
+    }
+
+    /**
+     * Returns the innermost scanned root containing a path.
+     */
+    public findRoot(fullPath: string): string | undefined {
+        return this.roots
+            .filter(root => fullPath === root || fullPath.startsWith(root + path.sep))
+            .sort((a, b) => b.length - a.length)[0];
+    }
+
+    /**
+     * Walks up from a file's directory to its root looking for a manifest such as go.mod.
+     * Manifests do not have to be scanned files.
+     * @returns The absolute path of the nearest manifest.
+     */
+    public findUp(fromFile: string, fileName: string): string | undefined {
+        const root = this.findRoot(fromFile);
+        let dir = path.dirname(fromFile);
+        const visited: string[] = [];
+        let found: string | undefined;
+
+        while (root && (dir === root || dir.startsWith(root + path.sep))) {
+            const key = dir + path.delimiter + fileName;
+            if (this.foundConfigs.has(key)) {
+                found = this.foundConfigs.get(key);
+                break;
+            }
+            visited.push(key);
+            const candidate = path.join(dir, fileName);
+            if (fs.existsSync(candidate)) {
+                found = candidate;
+                break;
+            }
+            dir = path.dirname(dir);
+        }
+
+        visited.forEach(key => this.foundConfigs.set(key, found));
+        return found;
+    }
+
+    /**
+     * Reads and parses a manifest once; later calls return the cached result.
+     * @returns Undefined when the file cannot be read or parsed.
+     */
+    public readConfig<T>(fullPath: string, parse: (content: string) => T): T | undefined {
+        if (!this.configs.has(fullPath)) {
+            let value: T | undefined;
+            try {
+                value = parse(fs.readFileSync(fullPath, 'utf-8'));
+            } catch {
+                value = undefined;
+            }
+            this.configs.set(fullPath, value);
+        }
+        return this.configs.get(fullPath) as T | undefined;
+    }
+
+    /**
+     * Forgets cached manifests so edited ones are read again.
+     */
+    public clearConfigCache() {
+        this.configs.clear();
+        this.foundConfigs.clear();
+        this.modules.clearConfigCache();
+    }
+
+    public resolveModule(specifier: string, fromFile: string): string | undefined {
+        return this.modules.resolve(specifier, fromFile);
+    }
+
+    /**
+     * Makes a workspace package importable by name. The scanner reads every package.json.
+     */
+    public registerPackage(manifestPath: string, content: string) {
+        this.modules.unregisterPackage(manifestPath);
+        this.modules.registerPackage(manifestPath, content);
+    }
+
+    public unregisterPackage(manifestPath: string) {
+        this.modules.unregisterPackage(manifestPath);
+    }
+
+    private addTo(map: Map<string, Set<string>>, key: string, fullPath: string) {
+        let set = map.get(key);
+        if (!set) {
+            set = new Set();
+            map.set(key, set);
+        }
+        set.add(fullPath);
+    }
+}
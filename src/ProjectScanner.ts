@@ -1,183 +1,742 @@
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import ignore, { Ignore } from 'ignore';
-import { GraphData, Node, Link } from './types';
+import minimatch from 'minimatch';
+import { GraphData, GraphDelta, Node, Link, ImportKind, ImportReference, LanguageAnalyzer } from './types';
+import { CacheEntry, ScanCache } from './ScanCache';
+import { ProjectFiles } from './ProjectFiles';
+import { IgnoreRules, ignoreFileNames } from './IgnoreRules';
+import { LanguageRegistry } from './LanguageRegistry';
+import { languageRegistry, plainFileAnalyzer } from './languages';
+
+/**
+ * A folder to scan. `name` namespaces node ids when several roots are
+ * scanned together; `cache` optionally persists parse results for it.
+ */
+export interface ScanRoot {
+    path: string;
+    name: string;
+    cache?: ScanCache;
+}
+
+/**
+ * Settings that apply to every root.
+ */
+export interface ScanOptions {
+    /** Directories searched for C/C++ `#include` targets, relative to each root or absolute. */
+    includeDirs?: string[];
+    /** Extra Python source roots, relative to each root or absolute. */
+    pythonPaths?: string[];
+    /** Analyzers to use instead of the shared registry. */
+    languages?: LanguageRegistry;
+    /** Globs (root-relative, `/`-separated) a file must match to be scanned; empty scans every file. */
+    include?: string[];
+    /** Globs of files and directories that are not scanned. Defaults to `defaultExcludes`. */
+    exclude?: string[];
+    /** Extensions (`.sql`) or file names (`Dockerfile`) shown as nodes without imports. */
+    extraFileTypes?: string[];
+    /** Files larger than this many bytes are left out; 0 means no limit. */
+    maxFileSize?: number;
+    /** Files beyond this count are left out; 0 means no limit. */
+    maxNodes?: number;
+    /** Lines of each file kept for the hover preview. Defaults to 10. */
+    previewLines?: number;
+    /** Whether .gitignore, .ignore and git's exclude files are applied. Defaults to true. */
+    respectGitignore?: boolean;
+}
+
+/**
+ * Counts reported while a scan runs. `discovered` grows while directories
+ * are walked; `processed` counts the files read since.
+ */
+export interface ScanProgress {
+    discovered: number;
+    processed: number;
+}
+
+/**
+ * Lets the caller of scan() follow and stop it.
+ */
+export interface ScanMonitor {
+    /** Polled between files. Once true, no more files are read and the scan returns the graph of those read so far. */
+    isCancelled?(): boolean;
+    onProgress?(progress: ScanProgress): void;
+    /** Receives the nodes read since the previous batch. Links are only known once the scan returns. */
+    onBatch?(batch: GraphData): void;
+}
+
+/**
+ * A root together with its ignore rules.
+ */
+interface RootState extends ScanRoot {
+    ignoreRules: IgnoreRules;
+}
+
+/**
+ * Where a scanned file lives. Import specifiers are kept after the scan so
+ * that links can be resolved again when other files appear or disappear.
+ */
+interface FileEntry {
+    filePath: string;
+    relativePath: string;
+    root: RootState;
+    analyzer: LanguageAnalyzer;
+    imports: ImportReference[];
+}
+
+/**
+ * A file found by the directory walk, waiting to be read.
+ */
+interface FoundFile {
+    root: RootState;
+    fullPath: string;
+    relativePath: string;
+    fileName: string;
+}
+
+/**
+ * A file that was read, ready to become a node.
+ */
+interface ReadFile {
+    node: Node;
+    file: FileEntry;
+    /** Content of a package.json, for workspace package resolution. */
+    manifest?: string;
+}
+
+/**
+ * Files read at the same time. Reads interleave with parsing so the
+ * extension host stays responsive.
+ */
+const readConcurrency = 16;
+
+/** Nodes per partial batch handed to ScanMonitor.onBatch. */
+const batchSize = 250;
+
+/** Files between two progress reports. */
+const progressInterval = 50;
+
+/**
+ * Files whose changes can alter how imports in other files resolve.
+ */
+const resolutionConfigFiles = [
+    'tsconfig.json', 'jsconfig.json', 'package.json', 'go.mod', 'Cargo.toml', 'composer.json', 'pyproject.toml'
+];
+
+/**
+ * Ordering used when several imports between the same two files are merged
+ * into one link: the first kind listed wins.
+ */
+export const kindPrecedence: ImportKind[] = ['static', 'reexport', 'require', 'dynamic', 'asset', 'type'];
+
+/**
+ * Skipped unless a scan is given its own exclude globs: hidden entries and
+ * common dependency and build output folders.
+ */
+export const defaultExcludes: string[] = ['**/.*', '**/node_modules', '**/dist', '**/out', '**/build', '**/target', '**/vendor'];
 
 /**
  * ProjectScanner is responsible for traversing the workspace and parsing
- * file dependencies to build a graph structure.
+ * file dependencies to build a graph structure. It can scan several roots
+ * at once, in which case node ids are prefixed with the root name and
+ * imports may link files across roots.
  */
 export class ProjectScanner {
-    private workspaceRoot: string;
-    private visitedFiles: Set<string> = new Set();
-    private nodes: Node[] = [];
-    private links: Link[] = [];
-    private ig: Ignore;
+    private roots: RootState[];
+    private nodes: Map<string, Node> = new Map();
+    private links: Map<string, Map<string, Link>> = new Map();
+    private files: Map<string, FileEntry> = new Map();
+    private idsByPath: Map<string, string> = new Map();
+    private index: ProjectFiles;
+    private languages: LanguageRegistry;
+    private extraFiles: LanguageAnalyzer | undefined;
+    private include: minimatch.IMinimatch[];
+    private exclude: minimatch.IMinimatch[];
+    private maxFileSize: number;
+    private maxNodes: number;
+    private previewLines: number;
+    private respectGitignore: boolean;
+    private truncated = false;
 
-    constructor(workspaceRoot: string) {
-        this.workspaceRoot = workspaceRoot;
-        this.ig = ignore();
-        this.loadGitignore();
+    /**
+     * @param workspaceRoot Absolute path of the folder to scan.
+     * @param cache Optional persistent cache of per-file parse results.
+     */
+    constructor(workspaceRoot: string, cache?: ScanCache);
+    /**
+     * @param roots Folders to scan into a single graph.
+     * @param options Settings shared by all roots.
+     */
+    constructor(roots: ScanRoot[], options?: ScanOptions);
+    constructor(rootOrRoots: string | ScanRoot[], cacheOrOptions?: ScanCache | ScanOptions) {
+        const cache = cacheOrOptions instanceof ScanCache ? cacheOrOptions : undefined;
+        const options = cacheOrOptions instanceof ScanCache ? {} : cacheOrOptions || {};
+        const roots = typeof rootOrRoots === 'string'
+            ? [{ path: rootOrRoots, name: path.basename(rootOrRoots), cache }]
+            : rootOrRoots;
+        this.roots = roots.map(root => ({ ...root, ignoreRules: IgnoreRules.none(root.path) }));
+        this.index = new ProjectFiles(this.roots.map(root => root.path), options.includeDirs, options.pythonPaths);
+        this.languages = options.languages || languageRegistry;
+        this.extraFiles = options.extraFileTypes?.length ? plainFileAnalyzer(options.extraFileTypes) : undefined;
+        const compile = (patterns: string[]) => patterns.map(pattern => new minimatch.Minimatch(pattern, { dot: true }));
+        this.include = compile(options.include || []);
+        this.exclude = compile(options.exclude || defaultExcludes);
+        this.maxFileSize = options.maxFileSize || 0;
+        this.maxNodes = options.maxNodes || 0;
+        this.previewLines = options.previewLines ?? 10;
+        this.respectGitignore = options.respectGitignore ?? true;
     }
 
     /**
-     * Loads .gitignore patterns from the workspace root.
+     * Scans the workspace and returns the graph data. Directories are walked
+     * first; the files found are then read a few at a time.
+     * @param monitor Receives progress and partial batches, and can cancel the scan.
      */
-    private loadGitignore() {
-        const gitignorePath = path.join(this.workspaceRoot, '.gitignore');
-        if (fs.existsSync(gitignorePath)) {
-            const content = fs.readFileSync(gitignorePath, 'utf-8');
-            this.ig.add(content);
+    public async scan(monitor?: ScanMonitor): Promise<GraphData> {
+        this.nodes.clear();
+        this.links.clear();
+        this.files.clear();
+        this.idsByPath.clear();
+        this.index.clear();
+        this.truncated = false;
+
+        const found: FoundFile[] = [];
+        for (const root of this.roots) {
+            await root.cache?.load();
+            // Ignore files are read afresh on every full scan
+            root.ignoreRules = this.respectGitignore ? await IgnoreRules.load(root.path) : IgnoreRules.none(root.path);
+            await this.scanDirectory(root, root.path, found, monitor);
         }
+        monitor?.onProgress?.({ discovered: found.length, processed: 0 });
+
+        // Nodes are added in walk order so that the graph does not depend on read timing
+        for (const read of await this.readFiles(found, monitor)) {
+            if (read) {
+                this.addFile(read);
+            }
+        }
+        this.resolveDependencies(this.files.keys());
+
+        for (const root of this.roots) {
+            // A cut-short scan has not seen every file, so cache entries of the others are kept
+            if (!this.truncated) {
+                const relativePaths = new Set([...this.files.values()].filter(f => f.root === root).map(f => f.relativePath));
+                root.cache?.retain(relativePaths);
+            }
+            await root.cache?.save();
+        }
+        return this.getGraphData();
+    }
+
+    /**
+     * True when files were left out because the graph reached `maxNodes` or the scan was cancelled.
+     */
+    public isTruncated(): boolean {
+        return this.truncated;
+    }
+
+    /**
+     * Returns the names of the scanned roots, in scan order.
+     */
+    public getRootNames(): string[] {
+        return this.roots.map(root => root.name);
+    }
+
+    /**
+     * Returns what each root's node ids start with, in scan order: the root
+     * name when several roots are scanned, otherwise nothing.
+     */
+    public getRootPrefixes(): string[] {
+        return this.roots.map(root => this.roots.length > 1 ? root.name : '');
+    }
+
+    /**
+     * Returns the absolute paths of the scanned roots, in scan order.
+     */
+    public getRootPaths(): string[] {
+        return this.roots.map(root => root.path);
+    }
+
+    /**
+     * Returns the absolute path of a node, or undefined for unknown ids.
+     */
+    public getFilePath(id: string): string | undefined {
+        return this.files.get(id)?.filePath;
     }
 
     /**
-     * Scans the workspace and returns the graph data.
+     * Returns the node id of an absolute path, or undefined when the file is not in the graph.
      */
-    public async scan(): Promise<GraphData> {
-        this.nodes = [];
-        this.links = [];
-        this.visitedFiles.clear();
+    public getNodeId(fullPath: string): string | undefined {
+        return this.idsByPath.get(fullPath);
+    }
 
-        await this.scanDirectory(this.workspaceRoot);
-        return { nodes: this.nodes, links: this.links };
+    /**
+     * Returns the graph as it stands after the last scan or update.
+     */
+    public getGraphData(): GraphData {
+        const links: Link[] = [];
+        for (const targets of this.links.values()) {
+            links.push(...targets.values());
+        }
+        return { nodes: [...this.nodes.values()], links };
     }
 
     /**
-     * Recursively scans a directory for code files.
+     * Re-parses only the given paths and returns what changed in the graph.
+     * Paths may be files or directories; paths that no longer exist are
+     * treated as deletions. Must be called after scan().
+     * @param changedPaths Absolute paths that were created or modified.
+     * @param deletedPaths Absolute paths that were removed.
+     */
+    public async update(changedPaths: string[], deletedPaths: string[]): Promise<GraphDelta> {
+        const nodesBefore = new Map(this.nodes);
+        const linksBefore = this.getGraphData().links;
+        const affected = new Set<string>();
+        let resolveAll = false;
+
+        const touched = [...changedPaths, ...deletedPaths];
+        if (touched.some(p => ignoreFileNames.includes(path.basename(p)))) {
+            // Ignore rules changed: anything may have appeared or disappeared.
+            await this.scan();
+            return this.diff(nodesBefore, linksBefore);
+        }
+
+        for (const fullPath of deletedPaths) {
+            resolveAll = this.removePath(fullPath) || resolutionConfigFiles.includes(path.basename(fullPath)) || resolveAll;
+        }
+
+        for (const fullPath of changedPaths) {
+            const root = this.findRoot(fullPath);
+            const relativePath = root ? path.relative(root.path, fullPath) : '';
+            if (!root || !relativePath) {
+                continue;
+            }
+
+            let stats: fs.Stats;
+            try {
+                stats = await fs.promises.stat(fullPath);
+            } catch {
+                resolveAll = this.removePath(fullPath) || resolveAll;
+                continue;
+            }
+            if (!this.isIncluded(root, relativePath, stats.isDirectory())) {
+                continue;
+            }
+
+            if (stats.isDirectory()) {
+                const found: FoundFile[] = [];
+                await this.scanDirectory(root, fullPath, found);
+                for (const read of await this.readFiles(found)) {
+                    if (read) {
+                        this.addFile(read);
+                    }
+                }
+                resolveAll = true;
+            } else if (stats.isFile() && this.isCodeFile(path.basename(fullPath), relativePath)) {
+                const isNew = !this.idsByPath.has(fullPath);
+                await this.processFile(root, fullPath, relativePath, path.basename(fullPath));
+                affected.add(this.toId(root, relativePath));
+                resolveAll = resolveAll || isNew || resolutionConfigFiles.includes(path.basename(fullPath));
+            } else if (stats.isFile() && resolutionConfigFiles.includes(path.basename(fullPath))) {
+                // Manifests such as go.mod are read by resolvers without being graph nodes
+                resolveAll = true;
+            }
+        }
+
+        if (resolveAll) {
+            this.index.clearConfigCache();
+            this.links.clear();
+            this.resolveDependencies(this.files.keys());
+        } else {
+            for (const id of affected) {
+                this.links.delete(id);
+            }
+            this.resolveDependencies(affected);
+        }
+
+        for (const root of this.roots) {
+            await root.cache?.save();
+        }
+        return this.diff(nodesBefore, linksBefore);
+    }
+
+    /**
+     * Removes a file, or every file below a directory, from the graph.
+     * @returns True when at least one node was removed.
+     */
+    private removePath(fullPath: string): boolean {
+        let removed = false;
+        for (const [id, file] of this.files) {
+            if (file.filePath !== fullPath && !file.filePath.startsWith(fullPath + path.sep)) {
+                continue;
+            }
+            if (path.basename(file.filePath) === 'package.json') {
+                this.index.unregisterPackage(file.filePath);
+            }
+            this.nodes.delete(id);
+            this.links.delete(id);
+            this.files.delete(id);
+            this.idsByPath.delete(file.filePath);
+            this.index.delete(file.filePath);
+            file.root.cache?.delete(file.relativePath);
+            removed = true;
+        }
+        return removed;
+    }
+
+    /**
+     * Returns the scanned root that contains a path, preferring the innermost one.
+     */
+    private findRoot(fullPath: string): RootState | undefined {
+        return this.roots
+            .filter(root => fullPath === root.path || fullPath.startsWith(root.path + path.sep))
+            .sort((a, b) => b.path.length - a.path.length)[0];
+    }
+
+    /**
+     * Node ids are root-relative paths, prefixed with the root name when several roots are scanned.
+     */
+    private toId(root: RootState, relativePath: string): string {
+        return this.roots.length > 1 ? path.join(root.name, relativePath) : relativePath;
+    }
+
+    /**
+     * Compares the current graph with an earlier state.
+     */
+    private diff(nodesBefore: Map<string, Node>, linksBefore: Link[]): GraphDelta {
+        const delta: GraphDelta = { addedNodes: [], updatedNodes: [], removedNodes: [], addedLinks: [], removedLinks: [] };
+
+        for (const [id, node] of this.nodes) {
+            const previous = nodesBefore.get(id);
+            if (!previous) {
+                delta.addedNodes.push(node);
+            } else if (previous !== node && (previous.size !== node.size || previous.preview !== node.preview)) {
+                delta.updatedNodes.push(node);
+            }
+        }
+        for (const id of nodesBefore.keys()) {
+            if (!this.nodes.has(id)) {
+                delta.removedNodes.push(id);
+            }
+        }
+
+        const signature = (link: Link) => [link.kind, link.weight, link.line, link.column, link.endLine, link.endColumn].join(':');
+        const previousLinks = new Map(linksBefore.map(link => [link.source + '\0' + link.target, link]));
+        const currentLinks = this.getGraphData().links;
+        for (const link of currentLinks) {
+            const previous = previousLinks.get(link.source + '\0' + link.target);
+            if (!previous || signature(previous) !== signature(link)) {
+                delta.addedLinks.push(link);
+            }
+        }
+        const currentKeys = new Set(currentLinks.map(link => link.source + '\0' + link.target));
+        delta.removedLinks = linksBefore.filter(link => !currentKeys.has(link.source + '\0' + link.target));
+
+        return delta;
+    }
+
+    /**
+     * Applies the same skip rules as the directory walk to a single path.
+     */
+    private isIncluded(root: RootState, relativePath: string, isDirectory: boolean): boolean {
+        const segments = relativePath.split(path.sep);
+        for (let i = 0; i < segments.length; i++) {
+            const isLast = i === segments.length - 1;
+            if (this.isSkipped(root, segments.slice(0, i + 1).join(path.sep), !isLast || isDirectory)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Paths matching an exclude glob and ignored paths are not scanned.
+     */
+    private isSkipped(root: RootState, relativePath: string, isDirectory: boolean): boolean {
+        const slashPath = relativePath.split(path.sep).join('/');
+        if (this.exclude.some(pattern => pattern.match(slashPath))) {
+            return true;
+        }
+        return root.ignoreRules.ignores(relativePath, isDirectory);
+    }
+
+    /**
+     * Recursively collects the code files of a directory.
+     * @param root The root the directory belongs to.
      * @param dir The directory path to scan.
+     * @param found Receives the files, in walk order.
      */
-    private async scanDirectory(dir: string) {
+    private async scanDirectory(root: RootState, dir: string, found: FoundFile[], monitor?: ScanMonitor) {
         const entries = await fs.promises.readdir(dir, { withFileTypes: true });
 
         for (const entry of entries) {
+            if (monitor?.isCancelled?.()) {
+                return;
+            }
             const fullPath = path.join(dir, entry.name);
-            const relativePath = path.relative(this.workspaceRoot, fullPath);
+            const relativePath = path.relative(root.path, fullPath);
 
-            // Skip hidden files (except .gitignore) and common artifacts
-            if (entry.name.startsWith('.') && entry.name !== '.gitignore') {
+            if (this.isSkipped(root, relativePath, entry.isDirectory())) {
                 continue;
             }
-            
-            if (['node_modules', 'dist', 'out', 'build', 'target', 'vendor'].includes(entry.name)) {
-                continue;
+
+            if (entry.isDirectory()) {
+                // Nested workspace folders are scanned as roots of their own
+                if (this.findRoot(fullPath) === root) {
+                    await this.scanDirectory(root, fullPath, found, monitor);
+                }
+            } else if (entry.isFile() && this.isCodeFile(entry.name, relativePath)) {
+                found.push({ root, fullPath, relativePath, fileName: entry.name });
+                if (found.length % progressInterval === 0) {
+                    monitor?.onProgress?.({ discovered: found.length, processed: 0 });
+                }
             }
+        }
+    }
 
-            if (this.ig.ignores(relativePath)) {
-                continue;
+    /**
+     * Reads files with up to `readConcurrency` reads in flight, stopping early when
+     * the monitor cancels or `maxNodes` files have been read.
+     * @returns The results in the order of `found`; undefined where a file was skipped.
+     */
+    private async readFiles(found: FoundFile[], monitor?: ScanMonitor): Promise<(ReadFile | undefined)[]> {
+        const results: (ReadFile | undefined)[] = new Array(found.length);
+        const limit = this.maxNodes > 0 ? this.maxNodes - this.files.size : Infinity;
+        let next = 0;
+        let processed = 0;
+        let accepted = 0;
+        let batch: Node[] = [];
+
+        const flush = () => {
+            if (batch.length > 0) {
+                monitor?.onBatch?.({ nodes: batch, links: [] });
+                batch = [];
             }
+        };
 
-            if (entry.isDirectory()) {
-                await this.scanDirectory(fullPath);
-            } else if (entry.isFile()) {
-                if (this.isCodeFile(entry.name)) {
-                    await this.processFile(fullPath, relativePath, entry.name);
+        const worker = async () => {
+            while (next < found.length && accepted < limit) {
+                if (monitor?.isCancelled?.()) {
+                    return;
+                }
+                const index = next++;
+                const read = await this.readFile(found[index]);
+                results[index] = read;
+                processed++;
+                if (read) {
+                    accepted++;
+                    batch.push(read.node);
+                }
+                if (batch.length >= batchSize) {
+                    flush();
+                }
+                if (processed % progressInterval === 0) {
+                    monitor?.onProgress?.({ discovered: found.length, processed });
                 }
             }
+        };
+
+        await Promise.all(Array.from({ length: Math.min(readConcurrency, found.length) }, worker));
+        if (next < found.length || monitor?.isCancelled?.()) {
+            this.truncated = true;
+        }
+        flush();
+        monitor?.onProgress?.({ discovered: found.length, processed });
+        return results;
+    }
+
+    /**
+     * Re-reads a single file, e.g. after it changed.
+     */
+    private async processFile(root: RootState, fullPath: string, relativePath: string, fileName: string) {
+        const read = await this.readFile({ root, fullPath, relativePath, fileName });
+        if (read) {
+            this.addFile(read);
+        } else {
+            // Files that became too large or unreadable leave the graph
+            this.removePath(fullPath);
         }
     }
 
     /**
-     * Extracts metadata and dependencies from a single file.
+     * Extracts metadata and dependencies from a single file, reusing cached
+     * results when the file is unchanged.
+     * @returns Undefined when the file is too large or cannot be read.
      */
-    private async processFile(fullPath: string, relativePath: string, fileName: string) {
+    private async readFile({ root, fullPath, relativePath, fileName }: FoundFile): Promise<ReadFile | undefined> {
+        const analyzer = this.getAnalyzer(fileName);
+        if (!analyzer) {
+            return undefined;
+        }
+
         try {
             const stats = await fs.promises.stat(fullPath);
-            const content = await fs.promises.readFile(fullPath, 'utf-8');
-            
-            // Capture first 10 lines for the hover preview
-            const preview = content.split('\n').slice(0, 10).join('\n');
-
-            this.nodes.push({
-                id: relativePath,
-                name: fileName,
-                type: path.extname(fileName),
-                size: stats.size,
-                preview: preview
-            });
-
-            await this.parseDependenciesFromContent(content, fullPath, relativePath);
+            if (this.maxFileSize > 0 && stats.size > this.maxFileSize) {
+                return undefined;
+            }
+
+            let entry: CacheEntry | undefined = root.cache?.lookup(relativePath, stats);
+            if (entry?.analyzer !== analyzer.id || entry.previewLines !== this.previewLines) {
+                entry = undefined;
+            }
+
+            // Manifests are always read because workspace package resolution needs their content
+            let manifest: string | undefined;
+            if (!entry || fileName === 'package.json') {
+                const content = await fs.promises.readFile(fullPath, 'utf-8');
+                entry = this.readEntry(root, relativePath, fullPath, content, stats, analyzer);
+                manifest = fileName === 'package.json' ? content : undefined;
+            }
+
+            const id = this.toId(root, relativePath);
+            return {
+                node: {
+                    id,
+                    name: fileName,
+                    type: path.extname(fileName),
+                    size: stats.size,
+                    preview: entry.preview,
+                    root: root.name
+                },
+                file: { filePath: fullPath, relativePath, root, analyzer, imports: entry.imports },
+                manifest
+            };
         } catch (error) {
             console.error(`Error processing file ${fullPath}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Makes a read file a node, unless the graph already holds `maxNodes` other files.
+     */
+    private addFile({ node, file, manifest }: ReadFile) {
+        if (this.maxNodes > 0 && !this.files.has(node.id) && this.files.size >= this.maxNodes) {
+            this.truncated = true;
+            return;
+        }
+        if (manifest !== undefined) {
+            this.index.registerPackage(file.filePath, manifest);
+        }
+        this.nodes.set(node.id, node);
+        this.files.set(node.id, file);
+        this.idsByPath.set(file.filePath, node.id);
+        this.index.add(file.filePath);
+    }
+
+    /**
+     * Parses file content, or takes the parse result from the cache when the content hash matches.
+     */
+    private readEntry(
+        root: RootState, relativePath: string, fullPath: string, content: string, stats: fs.Stats, analyzer: LanguageAnalyzer
+    ): CacheEntry {
+        const cache = root.cache;
+        const hash = cache ? ScanCache.hash(content) : '';
+        const byHash = cache?.lookupByHash(relativePath, hash);
+        const cached = byHash?.analyzer === analyzer.id ? byHash : undefined;
+
+        const entry: CacheEntry = {
+            mtimeMs: stats.mtimeMs,
+            size: stats.size,
+            hash,
+            analyzer: analyzer.id,
+            // The hover preview is cheap to rebuild, so it follows the current line count
+            preview: this.previewLines > 0 ? content.split('\n').slice(0, this.previewLines).join('\n') : '',
+            previewLines: this.previewLines,
+            imports: cached ? cached.imports : this.parseDependenciesFromContent(content, fullPath, analyzer)
+        };
+        cache?.set(relativePath, entry);
+        return entry;
+    }
+
+    /**
+     * A file is part of the graph when some language analyzer handles it
+     * and it matches the include globs, if any.
+     */
+    private isCodeFile(filename: string, relativePath: string): boolean {
+        if (!this.getAnalyzer(filename)) {
+            return false;
         }
+        const slashPath = relativePath.split(path.sep).join('/');
+        return this.include.length === 0 || this.include.some(pattern => pattern.match(slashPath));
     }
 
     /**
-     * Determines if a file should be included in the graph based on extension.
+     * Language analyzers win over the configured extra file types.
      */
-    private isCodeFile(filename: string): boolean {
-        const ext = path.extname(filename).toLowerCase();
-        const supportedExtensions = [
-            '.ts', '.tsx', '.js', '.jsx', '.css', '.scss', 
-            '.html', '.py', '.java', '.c', '.cpp', '.h', 
-            '.json', '.md', '.go', '.rs', '.php'
-        ];
-        return supportedExtensions.includes(ext);
+    private getAnalyzer(fileName: string): LanguageAnalyzer | undefined {
+        const analyzer = this.languages.getAnalyzer(fileName);
+        if (analyzer) {
+            return analyzer;
+        }
+        return this.extraFiles?.matches(fileName) ? this.extraFiles : undefined;
     }
 
     /**
-     * Uses regex to identify imports and build dependency links.
+     * Extracts imports with the file's analyzer. Resolution happens in
+     * resolveDependencies once every file is known.
      */
-    private async parseDependenciesFromContent(content: string, filePath: string, relativeId: string) {
+    private parseDependenciesFromContent(content: string, filePath: string, analyzer: LanguageAnalyzer): ImportReference[] {
         try {
-            const dir = path.dirname(filePath);
-            const ext = path.extname(filePath).toLowerCase();
-            const importPaths: string[] = [];
-
-            if (['.ts', '.tsx', '.js', '.jsx'].includes(ext)) {
-                const regex = /import\s+.*?from\s+['"](.*?)['"]|require\(['"](.*?)['"]\)|import\(['"](.*?)['"]\)/g;
-                let match;
-                while ((match = regex.exec(content)) !== null) {
-                    importPaths.push(match[1] || match[2] || match[3]);
-                }
-            } else if (['.css', '.scss'].includes(ext)) {
-                const regex = /@import\s+['"](.*?)['"]|url\(['"](.*?)['"]\)/g;
-                let match;
-                while ((match = regex.exec(content)) !== null) {
-                    importPaths.push(match[1] || match[2]);
-                }
-            } else if (ext === '.py') {
-                const regex = /^import\s+(\w+)|^from\s+(\w+)\s+import/gm;
-                let match;
-                while ((match = regex.exec(content)) !== null) {
-                    importPaths.push(match[1] || match[2]);
-                }
-            }
-            
-            for (const importPath of importPaths) {
-                if (!importPath) { continue; }
-
-                if (importPath.startsWith('.')) {
-                    const absoluteImportPath = path.resolve(dir, importPath);
-                    let targetRelativePath = path.relative(this.workspaceRoot, absoluteImportPath);
-                    
-                    if (!this.fileExists(targetRelativePath)) {
-                        const extensions = ['.ts', '.tsx', '.js', '.jsx', '.css', '.scss', '/index.ts', '/index.js'];
-                        for (const e of extensions) {
-                            if (this.fileExists(targetRelativePath + e)) {
-                                targetRelativePath += e;
-                                break;
-                            }
-                        }
-                    }
+            return analyzer.extractImports(content, filePath);
+        } catch (error) {
+            console.error(`Error parsing dependencies in ${filePath}:`, error);
+            return [];
+        }
+    }
 
-                    if (!targetRelativePath.startsWith('..') && this.fileExists(targetRelativePath)) {
-                         this.links.push({ source: relativeId, target: targetRelativePath });
-                    }
-                } else if (ext === '.py') {
-                    const possiblePyFile = importPath.replace(/\./g, '/') + '.py';
-                    if (this.fileExists(possiblePyFile)) {
-                        this.links.push({ source: relativeId, target: possiblePyFile });
+    /**
+     * Turns the collected import specifiers of the given files into links between scanned files.
+     */
+    private resolveDependencies(sourceIds: Iterable<string>) {
+        for (const sourceId of sourceIds) {
+            const file = this.files.get(sourceId);
+            if (!file) { continue; }
+
+            for (const reference of file.imports) {
+                for (const targetPath of this.resolveImport(file, reference.specifier)) {
+                    const target = this.idsByPath.get(targetPath);
+                    if (target && target !== sourceId) {
+                        this.addLink(sourceId, target, reference);
                     }
                 }
             }
+        }
+    }
+
+    /**
+     * Maps a specifier to the absolute paths of the files it refers to, using
+     * the analyzer that parsed the importing file.
+     */
+    private resolveImport(file: FileEntry, specifier: string): string[] {
+        try {
+            return file.analyzer.resolve(specifier, file.filePath, this.index);
         } catch (error) {
-            console.error(`Error parsing dependencies in ${filePath}:`, error);
+            console.error(`Error resolving '${specifier}' in ${file.filePath}:`, error);
+            return [];
         }
     }
 
-    private fileExists(relativePath: string): boolean {
-        return fs.existsSync(path.join(this.workspaceRoot, relativePath));
+    /**
+     * Adds a link or, when the two files are already linked, merges the import into it.
+     */
+    private addLink(source: string, target: string, reference: ImportReference) {
+        const { kind, line, column, endLine, endColumn } = reference;
+        let targets = this.links.get(source);
+        if (!targets) {
+            targets = new Map();
+            this.links.set(source, targets);
+        }
+
+        const existing = targets.get(target);
+        if (!existing) {
+            targets.set(target, { source, target, kind, weight: 1, line, column, endLine, endColumn });
+            return;
+        }
+
+        existing.weight++;
+        if (kindPrecedence.indexOf(kind) < kindPrecedence.indexOf(existing.kind)) {
+            existing.kind = kind;
+        }
     }
 }
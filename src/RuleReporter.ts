@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+import { ProjectScanner } from './ProjectScanner';
+import { checkRootRules, loadRules, rulesFileName } from './ArchitectureRules';
+import { createWorkspaceScanner } from './WorkspaceRoots';
+import { importRange } from './CycleReporter';
+import { RuleViolation } from './types';
+
+/**
+ * Publishes architecture rule violations from `.constellation.json` to the
+ * Problems panel, one diagnostic per offending import statement. After the
+ * first check, saved, created and deleted files are re-parsed and the
+ * rules checked again.
+ */
+export class RuleReporter implements vscode.Disposable {
+    private readonly _diagnostics: vscode.DiagnosticCollection;
+    private readonly _context: vscode.ExtensionContext;
+    private readonly _watcher: vscode.FileSystemWatcher;
+    private _scanner: ProjectScanner | undefined;
+    private _checking: Promise<void> = Promise.resolve();
+    private _pendingChanges: Map<string, boolean> = new Map();
+    private _changeTimer: NodeJS.Timeout | undefined;
+
+    constructor(context: vscode.ExtensionContext) {
+        this._context = context;
+        this._diagnostics = vscode.languages.createDiagnosticCollection('code-constellation-rules');
+
+        this._watcher = vscode.workspace.createFileSystemWatcher('**/*');
+        this._watcher.onDidCreate(uri => this._onFileEvent(uri, false));
+        this._watcher.onDidChange(uri => this._onFileEvent(uri, false));
+        this._watcher.onDidDelete(uri => this._onFileEvent(uri, true));
+    }
+
+    /**
+     * Scans the workspace, reports every violation and tells the user how many were found.
+     */
+    public async checkArchitectureRules() {
+        const scanner = createWorkspaceScanner(this._context);
+        if (!scanner) {
+            vscode.window.showErrorMessage('No workspace folder open');
+            return;
+        }
+
+        let violations: RuleViolation[] | undefined;
+        try {
+            violations = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: "Checking architecture rules...",
+                cancellable: false
+            }, async () => {
+                if (!loadRules(scanner.getRootPaths())) {
+                    return undefined;
+                }
+                await scanner.scan();
+                this._scanner = scanner;
+                return this._check(scanner);
+            });
+        } catch (error) {
+            this._reportError(error);
+            return;
+        }
+
+        if (!violations) {
+            vscode.window.showInformationMessage(`No ${rulesFileName} found in the workspace folders.`);
+            return;
+        }
+        if (violations.length === 0) {
+            vscode.window.showInformationMessage('No architecture rule violations found.');
+            return;
+        }
+
+        const action = await vscode.window.showWarningMessage(
+            `Found ${violations.length} architecture rule ${violations.length === 1 ? 'violation' : 'violations'}.`,
+            'Show Problems'
+        );
+        if (action === 'Show Problems') {
+            vscode.commands.executeCommand('workbench.actions.view.problems');
+        }
+    }
+
+    /**
+     * Checks again after a file was saved, if enabled and a rules file exists.
+     */
+    public recheck(document: vscode.TextDocument) {
+        this._queueChange(document.uri.fsPath, false);
+    }
+
+    /**
+     * Forgets the scanned workspace, e.g. after the selected roots changed.
+     */
+    public reset() {
+        this._scanner = undefined;
+        this._pendingChanges.clear();
+        this._diagnostics.clear();
+    }
+
+    /**
+     * Edits outside the editor, new and deleted files only matter once there
+     * is a scan to patch; saves start one.
+     */
+    private _onFileEvent(uri: vscode.Uri, deleted: boolean) {
+        if (this._scanner) {
+            this._queueChange(uri.fsPath, deleted);
+        }
+    }
+
+    /**
+     * Collects saves and file events for a short while, so that bursts such
+     * as branch switches are checked once.
+     */
+    private _queueChange(fsPath: string, deleted: boolean) {
+        if (!vscode.workspace.getConfiguration('codeConstellation').get<boolean>('checkRulesOnSave', true)) {
+            return;
+        }
+        this._pendingChanges.set(fsPath, deleted);
+        if (this._changeTimer) {
+            clearTimeout(this._changeTimer);
+        }
+        this._changeTimer = setTimeout(() => this._applyChanges(), 300);
+    }
+
+    /**
+     * Patches the scan with the queued files, or scans first if needed, and
+     * checks the rules. Checks are chained so that they never overlap.
+     */
+    private _applyChanges() {
+        const changed: string[] = [];
+        const deleted: string[] = [];
+        for (const [fsPath, isDeleted] of this._pendingChanges) {
+            (isDeleted ? deleted : changed).push(fsPath);
+        }
+        this._pendingChanges.clear();
+
+        this._checking = this._checking.then(async () => {
+            let scanner = this._scanner;
+            if (!scanner) {
+                scanner = createWorkspaceScanner(this._context);
+                if (!scanner || !loadRules(scanner.getRootPaths())) {
+                    return;
+                }
+                await scanner.scan();
+                this._scanner = scanner;
+            } else {
+                await scanner.update(changed, deleted);
+            }
+            this._check(scanner);
+        }).catch(error => this._reportError(error));
+    }
+
+    private _check(scanner: ProjectScanner): RuleViolation[] {
+        const rules = loadRules(scanner.getRootPaths(), scanner.getRootPrefixes());
+        const violations = rules ? checkRootRules(scanner.getGraphData(), rules) : [];
+        this.report(scanner, violations);
+        return violations;
+    }
+
+    /**
+     * Replaces the published diagnostics with the given violations.
+     */
+    public report(scanner: ProjectScanner, violations: RuleViolation[]) {
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+
+        for (const violation of violations) {
+            const diagnostic = new vscode.Diagnostic(
+                importRange(violation),
+                violation.message,
+                violation.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'Code Constellation';
+            diagnostic.code = violation.rule;
+
+            const diagnostics = byFile.get(violation.source) || [];
+            diagnostics.push(diagnostic);
+            byFile.set(violation.source, diagnostics);
+        }
+
+        this._diagnostics.clear();
+        for (const [id, diagnostics] of byFile) {
+            const filePath = scanner.getFilePath(id);
+            if (filePath) {
+                this._diagnostics.set(vscode.Uri.file(filePath), diagnostics);
+            }
+        }
+    }
+
+    private _reportError(error: unknown) {
+        this._diagnostics.clear();
+        vscode.window.showErrorMessage('Code Constellation rules: ' + (error instanceof Error ? error.message : String(error)));
+    }
+
+    public dispose() {
+        if (this._changeTimer) {
+            clearTimeout(this._changeTimer);
+        }
+        this._watcher.dispose();
+        this._diagnostics.dispose();
+    }
+}
@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SavedView } from './types';
+
+/**
+ * Folder, below a workspace folder, holding the views meant to be committed.
+ */
+export const viewsFolder = path.join('.constellation', 'views');
+
+/**
+ * A view read from a project file.
+ */
+export interface ViewFile {
+    filePath: string;
+    view: SavedView;
+}
+
+/**
+ * Reads the view files of the given roots, sorted by view name. Files that
+ * cannot be read or parsed are passed to `onError` and skipped.
+ */
+export function loadViewFiles(rootPaths: string[], onError: (error: Error) => void = () => undefined): ViewFile[] {
+    const files: ViewFile[] = [];
+    for (const rootPath of rootPaths) {
+        const dir = path.join(rootPath, viewsFolder);
+        if (!fs.existsSync(dir)) {
+            continue;
+        }
+        for (const name of fs.readdirSync(dir).filter(name => name.endsWith('.json')).sort()) {
+            const filePath = path.join(dir, name);
+            try {
+                files.push({ filePath, view: parseView(fs.readFileSync(filePath, 'utf-8'), filePath) });
+            } catch (error) {
+                onError(error instanceof Error ? error : new Error(String(error)));
+            }
+        }
+    }
+    return files.sort((a, b) => a.view.name.localeCompare(b.view.name));
+}
+
+/**
+ * Parses the contents of a view file. Files name nodes with `/` so that a
+ * view committed on one platform works on the others; the returned view
+ * uses the platform separator like node ids do.
+ * @throws When the JSON is invalid or lacks a name or positions; the message names the file.
+ */
+export function parseView(content: string, filePath: string): SavedView {
+    let view: SavedView;
+    try {
+        view = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!view || typeof view !== 'object' || typeof view.name !== 'string' || !view.positions || typeof view.positions !== 'object') {
+        throw new Error(`${filePath}: expected an object with a "name" and "positions"`);
+    }
+    return mapIds(view, id => id.split('/').join(path.sep));
+}
+
+/**
+ * Turns a view into the contents of a view file.
+ */
+export function serializeView(view: SavedView): string {
+    return JSON.stringify(mapIds(view, id => id.split(path.sep).join('/')), null, 2) + '\n';
+}
+
+/**
+ * Writes a view into a root's views folder, replacing the file of a view
+ * with the same name. Views whose names give the same file name, such as
+ * "API" and "api", get numbered files instead of overwriting each other.
+ * @returns The path of the file.
+ */
+export function writeViewFile(rootPath: string, view: SavedView): string {
+    const dir = path.join(rootPath, viewsFolder);
+    const existing = loadViewFiles([rootPath]).find(file => file.view.name === view.name);
+    let filePath = existing?.filePath;
+    for (let i = 1; !filePath; i++) {
+        const fileName = i === 1 ? viewFileName(view.name) : viewFileName(view.name).replace(/\.json$/, `-${i}.json`);
+        if (!fs.existsSync(path.join(dir, fileName))) {
+            filePath = path.join(dir, fileName);
+        }
+    }
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(filePath, serializeView(view));
+    return filePath;
+}
+
+/**
+ * The view's name in lower case, with dashes for spaces and punctuation.
+ */
+export function viewFileName(name: string): string {
+    const slug = name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+    return (slug || 'view') + '.json';
+}
+
+function mapIds(view: SavedView, map: (id: string) => string): SavedView {
+    const positions: Record<string, number[]> = {};
+    Object.keys(view.positions).forEach(id => positions[map(id)] = view.positions[id]);
+    return { ...view, positions, highlighted: view.highlighted?.map(map) };
+}
@@ -0,0 +1,184 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ImportReference } from './types';
+
+/**
+ * Bump whenever parsing changes so that stale results are discarded.
+ */
+const cacheVersion = 5;
+
+const cacheFilePrefix = 'scan-cache-';
+
+/**
+ * What the scanner remembers about a file between sessions.
+ */
+export interface CacheEntry {
+    mtimeMs: number;
+    size: number;
+    hash: string;
+    /** Id of the language analyzer that produced `imports`. */
+    analyzer: string;
+    preview: string;
+    /** Line count `preview` was cut to. */
+    previewLines: number;
+    imports: ImportReference[];
+}
+
+interface CacheFile {
+    version: number;
+    root: string;
+    entries: Record<string, CacheEntry>;
+}
+
+/**
+ * ScanCache persists per-file parse results on disk, keyed by workspace
+ * relative path. An entry is reused without reading the file when mtime and
+ * size match, and after reading it when only the content hash matches
+ * (e.g. a file touched by a branch switch). Scanners of the same folder
+ * should share one instance, so that their saves do not drop each other's
+ * entries.
+ */
+export class ScanCache {
+    private cacheFile: string;
+    private workspaceRoot: string;
+    private entries: Map<string, CacheEntry> = new Map();
+    private dirty = false;
+    private loading: Promise<void> | undefined;
+    private saving: Promise<void> = Promise.resolve();
+
+    /**
+     * @param storageDir Directory that holds the cache files, one per workspace folder.
+     * @param workspaceRoot Absolute path of the scanned folder.
+     */
+    constructor(storageDir: string, workspaceRoot: string) {
+        const key = ScanCache.hash(workspaceRoot).slice(0, 16);
+        this.cacheFile = path.join(storageDir, cacheFilePrefix + key + '.json');
+        this.workspaceRoot = workspaceRoot;
+    }
+
+    /**
+     * Computes the content hash used to validate entries.
+     */
+    public static hash(content: string): string {
+        return crypto.createHash('sha1').update(content).digest('hex');
+    }
+
+    /**
+     * Deletes every cache file in the storage directory.
+     * @returns The number of files removed.
+     */
+    public static async clearAll(storageDir: string): Promise<number> {
+        let names: string[];
+        try {
+            names = await fs.promises.readdir(storageDir);
+        } catch {
+            return 0;
+        }
+
+        const cacheFiles = names.filter(name => name.startsWith(cacheFilePrefix));
+        await Promise.all(cacheFiles.map(name => fs.promises.rm(path.join(storageDir, name), { force: true })));
+        return cacheFiles.length;
+    }
+
+    /**
+     * Reads the cache from disk the first time it is called; later calls
+     * keep the entries in memory, which every scan keeps current. A missing,
+     * corrupt or outdated file yields an empty cache.
+     */
+    public load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.read();
+        }
+        return this.loading;
+    }
+
+    /**
+     * Forgets every entry, e.g. after the cache files were deleted.
+     */
+    public clear() {
+        this.entries.clear();
+        this.dirty = false;
+        this.loading = Promise.resolve();
+    }
+
+    private async read() {
+        try {
+            const data: CacheFile = JSON.parse(await fs.promises.readFile(this.cacheFile, 'utf-8'));
+            if (data.version === cacheVersion && data.root === this.workspaceRoot) {
+                this.entries = new Map(Object.entries(data.entries));
+            }
+        } catch {
+            // Start from an empty cache.
+        }
+    }
+
+    /**
+     * Returns the entry for a file whose mtime and size are unchanged.
+     */
+    public lookup(relativePath: string, stats: fs.Stats): CacheEntry | undefined {
+        const entry = this.entries.get(relativePath);
+        if (entry && entry.mtimeMs === stats.mtimeMs && entry.size === stats.size) {
+            return entry;
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the entry for a file whose content is unchanged even though its mtime moved.
+     */
+    public lookupByHash(relativePath: string, hash: string): CacheEntry | undefined {
+        const entry = this.entries.get(relativePath);
+        return entry && entry.hash === hash ? entry : undefined;
+    }
+
+    public set(relativePath: string, entry: CacheEntry) {
+        this.entries.set(relativePath, entry);
+        this.dirty = true;
+    }
+
+    public delete(relativePath: string) {
+        this.dirty = this.entries.delete(relativePath) || this.dirty;
+    }
+
+    /**
+     * Drops entries for files that no longer exist.
+     */
+    public retain(relativePaths: Set<string>) {
+        for (const key of this.entries.keys()) {
+            if (!relativePaths.has(key)) {
+                this.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Writes the cache to disk if anything changed since it was loaded.
+     * Saves run one after the other, so the last one wins with every entry.
+     */
+    public save(): Promise<void> {
+        this.saving = this.saving.then(() => this.write());
+        return this.saving;
+    }
+
+    private async write() {
+        if (!this.dirty) {
+            return;
+        }
+
+        const data: CacheFile = {
+            version: cacheVersion,
+            root: this.workspaceRoot,
+            entries: Object.fromEntries(this.entries)
+        };
+        // Entries set while the file is written make it dirty again
+        this.dirty = false;
+        try {
+            await fs.promises.mkdir(path.dirname(this.cacheFile), { recursive: true });
+            await fs.promises.writeFile(this.cacheFile, JSON.stringify(data));
+        } catch (error) {
+            this.dirty = true;
+            console.error(`Error writing scan cache ${this.cacheFile}:`, error);
+        }
+    }
+}
@@ -0,0 +1,84 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { ImportKind, ImportReference } from './types';
+
+/**
+ * Picks the script kind so that JSX and TSX are parsed with the right grammar.
+ */
+function getScriptKind(fileName: string): ts.ScriptKind {
+    switch (path.extname(fileName).toLowerCase()) {
+        case '.tsx': return ts.ScriptKind.TSX;
+        case '.jsx': return ts.ScriptKind.JSX;
+        case '.js':
+        case '.mjs':
+        case '.cjs': return ts.ScriptKind.JS;
+        default: return ts.ScriptKind.TS;
+    }
+}
+
+/**
+ * An import clause is type-only when it says `import type`, or when every
+ * binding it has is marked `type` (`import { type A, type B } from ...`).
+ */
+function isTypeOnlyImport(clause: ts.ImportClause | undefined): boolean {
+    if (!clause) {
+        return false;
+    }
+    if (clause.isTypeOnly) {
+        return true;
+    }
+    const bindings = clause.namedBindings;
+    return !clause.name
+        && !!bindings
+        && ts.isNamedImports(bindings)
+        && bindings.elements.length > 0
+        && bindings.elements.every(element => element.isTypeOnly);
+}
+
+/**
+ * Extracts imports from TypeScript or JavaScript source using the compiler's
+ * parser, so commented-out code and strings never produce edges.
+ * @param content The file text.
+ * @param fileName Used to choose between TS, TSX, JS and JSX grammars.
+ */
+export function parseTypeScriptImports(content: string, fileName: string): ImportReference[] {
+    const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, false, getScriptKind(fileName));
+    const imports: ImportReference[] = [];
+
+    const add = (literal: ts.Node, specifier: string, kind: ImportKind) => {
+        const start = sourceFile.getLineAndCharacterOfPosition(literal.getStart(sourceFile));
+        const end = sourceFile.getLineAndCharacterOfPosition(literal.getEnd());
+        imports.push({ specifier, kind, line: start.line, column: start.character, endLine: end.line, endColumn: end.character });
+    };
+
+    const visit = (node: ts.Node) => {
+        if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+            add(node.moduleSpecifier, node.moduleSpecifier.text, isTypeOnlyImport(node.importClause) ? 'type' : 'static');
+        } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+            add(node.moduleSpecifier, node.moduleSpecifier.text, node.isTypeOnly ? 'type' : 'reexport');
+        } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+            const expression = node.moduleReference.expression;
+            if (ts.isStringLiteral(expression)) {
+                add(expression, expression.text, node.isTypeOnly ? 'type' : 'require');
+            }
+        } else if (ts.isImportTypeNode(node)) {
+            const argument = node.argument;
+            if (ts.isLiteralTypeNode(argument) && ts.isStringLiteral(argument.literal)) {
+                add(argument.literal, argument.literal.text, 'type');
+            }
+        } else if (ts.isCallExpression(node) && node.arguments.length > 0) {
+            const [argument] = node.arguments;
+            if (ts.isStringLiteralLike(argument)) {
+                if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+                    add(argument, argument.text, 'dynamic');
+                } else if (ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+                    add(argument, argument.text, 'require');
+                }
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return imports;
+}
@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import { ProjectScanner, ScanRoot } from './ProjectScanner';
+import { ScanCache } from './ScanCache';
+
+const selectedRootsKey = 'codeConstellation.selectedRoots';
+
+/**
+ * One cache per folder, shared by the graph, the reporters and exports.
+ */
+const scanCaches = new Map<string, ScanCache>();
+
+/**
+ * Settings that change what a scan produces.
+ */
+const scanSettings = [
+    'includePaths', 'pythonPaths', 'include', 'exclude', 'extraFileTypes', 'maxFileSize', 'maxNodes', 'previewLines', 'respectGitignore'
+];
+
+/**
+ * Directory where per-folder scan caches are stored.
+ */
+export function getCacheDir(context: vscode.ExtensionContext): string {
+    return (context.storageUri || context.globalStorageUri).fsPath;
+}
+
+/**
+ * Deletes the cache files and empties the caches in use.
+ * @returns The number of files removed.
+ */
+export async function clearScanCaches(context: vscode.ExtensionContext): Promise<number> {
+    scanCaches.forEach(cache => cache.clear());
+    return ScanCache.clearAll(getCacheDir(context));
+}
+
+/**
+ * Returns the workspace folders chosen with the root picker, or every folder
+ * when nothing (or nothing that still exists) was chosen.
+ */
+export function getSelectedFolders(context: vscode.ExtensionContext): vscode.WorkspaceFolder[] {
+    const folders = vscode.workspace.workspaceFolders || [];
+    const selected = context.workspaceState.get<string[]>(selectedRootsKey);
+    const chosen = selected ? folders.filter(folder => selected.includes(folder.uri.toString())) : [];
+    return chosen.length > 0 ? chosen : [...folders];
+}
+
+/**
+ * Lets the user choose which workspace folders are scanned.
+ * @returns True when the selection was changed.
+ */
+export async function pickFolders(context: vscode.ExtensionContext): Promise<boolean> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length === 0) {
+        vscode.window.showErrorMessage('No workspace folder open');
+        return false;
+    }
+
+    const selected = new Set(getSelectedFolders(context).map(folder => folder.uri.toString()));
+    const picks = await vscode.window.showQuickPick(
+        folders.map(folder => ({
+            label: folder.name,
+            description: folder.uri.fsPath,
+            picked: selected.has(folder.uri.toString()),
+            folder
+        })),
+        { canPickMany: true, placeHolder: 'Workspace folders to include in the graph' }
+    );
+
+    if (!picks) {
+        return false;
+    }
+    if (picks.length === 0) {
+        vscode.window.showWarningMessage('Select at least one workspace folder.');
+        return false;
+    }
+
+    await context.workspaceState.update(selectedRootsKey, picks.map(pick => pick.folder.uri.toString()));
+    return true;
+}
+
+/**
+ * Creates a scanner over the selected workspace folders, each with the
+ * shared cache of that folder. Folder names are made unique because they namespace node ids.
+ * @returns Undefined when no folder is open.
+ */
+export function createWorkspaceScanner(context: vscode.ExtensionContext): ProjectScanner | undefined {
+    const folders = getSelectedFolders(context);
+    if (folders.length === 0) {
+        return undefined;
+    }
+
+    const cacheDir = getCacheDir(context);
+    const usedNames = new Set<string>();
+    const roots: ScanRoot[] = folders.map(folder => {
+        let name = folder.name;
+        for (let i = 2; usedNames.has(name); i++) {
+            name = `${folder.name} (${i})`;
+        }
+        usedNames.add(name);
+        let cache = scanCaches.get(folder.uri.fsPath);
+        if (!cache) {
+            cache = new ScanCache(cacheDir, folder.uri.fsPath);
+            scanCaches.set(folder.uri.fsPath, cache);
+        }
+        return { path: folder.uri.fsPath, name, cache };
+    });
+
+    const config = vscode.workspace.getConfiguration('codeConstellation');
+    return new ProjectScanner(roots, {
+        includeDirs: config.get<string[]>('includePaths', []),
+        pythonPaths: config.get<string[]>('pythonPaths', []),
+        include: config.get<string[]>('include', []),
+        exclude: config.get<string[]>('exclude'),
+        extraFileTypes: config.get<string[]>('extraFileTypes', []),
+        maxFileSize: config.get<number>('maxFileSize', 0),
+        maxNodes: config.get<number>('maxNodes', 0),
+        previewLines: config.get<number>('previewLines', 10),
+        respectGitignore: config.get<boolean>('respectGitignore', true)
+    });
+}
+
+/**
+ * True when a configuration change affects what createWorkspaceScanner scans.
+ */
+export function affectsScan(event: vscode.ConfigurationChangeEvent): boolean {
+    return scanSettings.some(setting => event.affectsConfiguration(`codeConstellation.${setting}`));
+}
@@ -0,0 +1,252 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectScanner, kindPrecedence } from './ProjectScanner';
+import { findCycles } from './CycleDetector';
+import { computeMetrics } from './GraphMetrics';
+import { ExportFormat, exportFormats, filterGraph, serializeGraph } from './GraphExporter';
+import { checkRootRules, loadRules, RootRules, rulesFileName } from './ArchitectureRules';
+import { GraphData, ImportKind } from './types';
+
+const usage = `Usage: code-constellation [directory] [options]
+
+Scans a project like the VS Code extension does, prints statistics or the
+graph, and exits with code 1 when a check fails.
+
+Options:
+  --format <format>      stats (default), json, dot, mermaid or graphml
+  --output <file>        Write the graph to a file instead of standard output
+  --hide <kinds>         Leave out link kinds, e.g. type,asset
+  --check-cycles         Fail when there are import cycles
+  --max-cycles <n>       Fail only when there are more than n cycles
+  --check-rules          Fail on ${rulesFileName} violations (default when the file exists)
+  --no-check-rules       Do not check ${rulesFileName}
+  --include-path <dir>   C/C++ include directory; may be repeated
+  --python-path <dir>    Python source root; may be repeated
+  -h, --help             Show this help
+`;
+
+/**
+ * Where the CLI writes. Tests pass buffers instead of the process streams.
+ */
+export interface CliOutput {
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+}
+
+interface CliOptions {
+    directory: string;
+    format: ExportFormat | 'stats';
+    output?: string;
+    hiddenLinkKinds: ImportKind[];
+    maxCycles?: number;
+    checkRules?: boolean;
+    includeDirs: string[];
+    pythonPaths: string[];
+    help: boolean;
+}
+
+/**
+ * Runs the CLI with the given arguments (without `node` and the script).
+ * @returns The process exit code: 0 when every check passed, 1 when a
+ * check failed and 2 for usage or scan errors.
+ */
+export async function runCli(args: string[], output: CliOutput): Promise<number> {
+    let options: CliOptions;
+    try {
+        options = parseArgs(args);
+    } catch (error) {
+        output.stderr(`${error instanceof Error ? error.message : String(error)}\n\n${usage}`);
+        return 2;
+    }
+    if (options.help) {
+        output.stdout(usage);
+        return 0;
+    }
+
+    const directory = path.resolve(options.directory);
+    if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+        output.stderr(`Not a directory: ${directory}\n`);
+        return 2;
+    }
+
+    let data: GraphData;
+    let rules: RootRules[] | undefined;
+    try {
+        rules = options.checkRules === false ? undefined : loadRules([directory]);
+        const scanner = new ProjectScanner([{ path: directory, name: path.basename(directory) }], {
+            includeDirs: options.includeDirs,
+            pythonPaths: options.pythonPaths
+        });
+        data = filterGraph(await scanner.scan(), { hiddenLinkKinds: options.hiddenLinkKinds });
+    } catch (error) {
+        output.stderr(`${error instanceof Error ? error.message : String(error)}\n`);
+        return 2;
+    }
+
+    if (options.checkRules && !rules) {
+        output.stderr(`No ${rulesFileName} found in ${directory}\n`);
+        return 2;
+    }
+
+    const cycles = findCycles(data);
+    const violations = rules ? checkRootRules(data, rules) : [];
+
+    // The graph goes to stdout or a file; reports go to stderr so that output can be piped
+    const report = options.format === 'stats' && !options.output ? output.stdout : output.stderr;
+    if (options.format === 'stats') {
+        report(formatStats(data));
+    } else if (options.output) {
+        try {
+            fs.writeFileSync(options.output, serializeGraph(data, options.format));
+        } catch (error) {
+            output.stderr(`${error instanceof Error ? error.message : String(error)}\n`);
+            return 2;
+        }
+    } else {
+        output.stdout(serializeGraph(data, options.format));
+    }
+
+    let failed = false;
+    const allowedCycles = options.maxCycles;
+    if (cycles.length > 0) {
+        report(`\n${cycles.length} import ${cycles.length === 1 ? 'cycle' : 'cycles'}:\n`);
+        cycles.forEach((cycle, index) => report(`  ${index + 1}. ${cycle.nodes.map(toSlashes).join(' → ')}\n`));
+    }
+    if (allowedCycles !== undefined && cycles.length > allowedCycles) {
+        report(`\n✖ Found ${cycles.length} import cycles; at most ${allowedCycles} allowed.\n`);
+        failed = true;
+    }
+
+    if (violations.length > 0) {
+        report(`\n✖ ${violations.length} architecture rule ${violations.length === 1 ? 'violation' : 'violations'}:\n`);
+        violations.forEach(v => report(`  ${toSlashes(v.source)}:${(v.line || 0) + 1}: ${v.message}\n`));
+        failed = true;
+    }
+    return failed ? 1 : 0;
+}
+
+function parseArgs(args: string[]): CliOptions {
+    const options: CliOptions = { directory: '.', format: 'stats', hiddenLinkKinds: [], includeDirs: [], pythonPaths: [], help: false };
+    let directory: string | undefined;
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = () => {
+            if (i + 1 >= args.length) {
+                throw new Error(`Missing value for ${arg}`);
+            }
+            return args[++i];
+        };
+
+        switch (arg) {
+            case '-h':
+            case '--help':
+                options.help = true;
+                break;
+            case '--format': {
+                const format = value();
+                if (format !== 'stats' && !Object.prototype.hasOwnProperty.call(exportFormats, format)) {
+                    throw new Error(`Unknown format: ${format}`);
+                }
+                options.format = format as CliOptions['format'];
+                break;
+            }
+            case '--output':
+                options.output = value();
+                break;
+            case '--hide':
+                for (const kind of value().split(',')) {
+                    if (!kindPrecedence.includes(kind as ImportKind)) {
+                        throw new Error(`Unknown link kind: ${kind}`);
+                    }
+                    options.hiddenLinkKinds.push(kind as ImportKind);
+                }
+                break;
+            case '--check-cycles':
+                options.maxCycles = options.maxCycles ?? 0;
+                break;
+            case '--max-cycles': {
+                const max = Number(value());
+                if (!Number.isInteger(max) || max < 0) {
+                    throw new Error('--max-cycles needs a whole number');
+                }
+                options.maxCycles = max;
+                break;
+            }
+            case '--check-rules':
+                options.checkRules = true;
+                break;
+            case '--no-check-rules':
+                options.checkRules = false;
+                break;
+            case '--include-path':
+                options.includeDirs.push(value());
+                break;
+            case '--python-path':
+                options.pythonPaths.push(value());
+                break;
+            default:
+                if (arg.startsWith('-') || directory !== undefined) {
+                    throw new Error(`Unexpected argument: ${arg}`);
+                }
+                directory = arg;
+        }
+    }
+
+    if (options.output && options.format === 'stats') {
+        throw new Error('--output needs a graph --format');
+    }
+    options.directory = directory || '.';
+    return options;
+}
+
+/**
+ * Totals by file type and link kind, plus the files most depended on.
+ */
+function formatStats(data: GraphData): string {
+    const count = (values: string[]) => {
+        const counts = new Map<string, number>();
+        values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+        return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    };
+    const lines = [`${data.nodes.length} files, ${data.links.length} links`];
+
+    lines.push('', 'Files by type:');
+    count(data.nodes.map(n => n.type || 'other')).forEach(([type, n]) => lines.push(`  ${type.padEnd(12)} ${n}`));
+
+    if (data.links.length > 0) {
+        lines.push('', 'Links by kind:');
+        count(data.links.map(l => l.kind)).forEach(([kind, n]) => lines.push(`  ${kind.padEnd(12)} ${n}`));
+    }
+
+    const metrics = computeMetrics(data);
+    const hotspots = Object.keys(metrics)
+        .filter(id => metrics[id].dependents! > 0)
+        .sort((a, b) => metrics[b].dependents! - metrics[a].dependents! || a.localeCompare(b))
+        .slice(0, 5);
+    if (hotspots.length > 0) {
+        lines.push('', 'Most depended on:');
+        hotspots.forEach(id => lines.push(`  ${toSlashes(id)} (${metrics[id].dependents} dependents, ${metrics[id].inDegree} direct)`));
+    }
+
+    const orphans = Object.keys(metrics).filter(id => metrics[id].orphan);
+    lines.push('', `${orphans.length} orphan ${orphans.length === 1 ? 'file' : 'files'}`);
+    return lines.join('\n') + '\n';
+}
+
+function toSlashes(id: string): string {
+    return id.split(path.sep).join('/');
+}
+
+if (require.main === module) {
+    runCli(process.argv.slice(2), {
+        stdout: text => process.stdout.write(text),
+        stderr: text => process.stderr.write(text)
+    }).then(code => {
+        process.exitCode = code;
+    }).catch(error => {
+        process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+        process.exitCode = 2;
+    });
+}
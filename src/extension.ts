@@ -1,14 +1,109 @@
 import * as vscode from 'vscode';
 import { GraphPanel } from './GraphPanel';
+import { CycleReporter } from './CycleReporter';
+import { RuleReporter } from './RuleReporter';
+import { affectsScan, clearScanCaches, createWorkspaceScanner, pickFolders } from './WorkspaceRoots';
+import { exportGraph } from './ExportDialog';
+import { languageRegistry } from './languages';
+import { CodeConstellationApi, LanguageAnalyzer } from './types';
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): CodeConstellationApi {
 	console.log('Congratulations, your extension "code-constellation" is now active!');
 
 	let disposable = vscode.commands.registerCommand('code-constellation.showGraph', () => {
-		GraphPanel.createOrShow(context.extensionUri);
+		GraphPanel.createOrShow(context);
 	});
 
 	context.subscriptions.push(disposable);
+
+	// Brings back a graph that was open when VS Code was closed
+	context.subscriptions.push(vscode.window.registerWebviewPanelSerializer(GraphPanel.viewType, {
+		deserializeWebviewPanel: async panel => GraphPanel.revive(panel, context)
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('code-constellation.revealInGraph', (uri?: vscode.Uri) => {
+		// Menus pass the file's uri; the command palette does not
+		const target = uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri;
+		if (!target || target.scheme !== 'file') {
+			vscode.window.showWarningMessage('Open a file to reveal it in the graph.');
+			return;
+		}
+		GraphPanel.createOrShow(context);
+		if (GraphPanel.currentPanel && !GraphPanel.currentPanel.revealFile(target.fsPath)) {
+			vscode.window.showInformationMessage(`${vscode.workspace.asRelativePath(target)} is not part of the graph.`);
+		}
+	}));
+
+	const cycleReporter = new CycleReporter(context);
+	context.subscriptions.push(cycleReporter);
+	context.subscriptions.push(vscode.commands.registerCommand('code-constellation.findCycles', async () => {
+		await cycleReporter.findCircularDependencies();
+		GraphPanel.currentPanel?.showCycles();
+	}));
+
+	const ruleReporter = new RuleReporter(context);
+	context.subscriptions.push(ruleReporter);
+	context.subscriptions.push(vscode.commands.registerCommand('code-constellation.checkRules', () => ruleReporter.checkArchitectureRules()));
+	context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(document => ruleReporter.recheck(document)));
+
+	context.subscriptions.push(vscode.commands.registerCommand('code-constellation.clearCache', async () => {
+		const removed = await clearScanCaches(context);
+		vscode.window.showInformationMessage(`Code Constellation: cleared ${removed} scan cache ${removed === 1 ? 'file' : 'files'}.`);
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('code-constellation.selectRoots', async () => {
+		if (await pickFolders(context)) {
+			ruleReporter.reset();
+			GraphPanel.currentPanel?.refresh();
+		}
+	}));
+
+	context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+		if (affectsScan(event)) {
+			ruleReporter.reset();
+			GraphPanel.currentPanel?.refresh();
+		}
+		if (event.affectsConfiguration('codeConstellation.performanceMode') || event.affectsConfiguration('codeConstellation.webglThreshold')) {
+			GraphPanel.currentPanel?.updateRenderOptions();
+		}
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('code-constellation.exportGraph', async () => {
+		// An open graph knows which links are filtered out; otherwise export everything
+		if (GraphPanel.currentPanel) {
+			GraphPanel.currentPanel.requestExport();
+			return;
+		}
+
+		const scanner = createWorkspaceScanner(context);
+		if (!scanner) {
+			vscode.window.showErrorMessage('No workspace folder open');
+			return;
+		}
+		const data = await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: "Scanning project...",
+			cancellable: false
+		}, () => scanner.scan());
+		try {
+			await exportGraph(data);
+		} catch (error) {
+			vscode.window.showErrorMessage('Could not export the graph: ' + (error instanceof Error ? error.message : String(error)));
+		}
+	}));
+
+	return {
+		registerLanguageAnalyzer(analyzer: LanguageAnalyzer) {
+			const registration = languageRegistry.register(analyzer);
+			GraphPanel.currentPanel?.refresh();
+			const disposable = new vscode.Disposable(() => {
+				registration.dispose();
+				GraphPanel.currentPanel?.refresh();
+			});
+			context.subscriptions.push(disposable);
+			return disposable;
+		}
+	};
 }
 
 export function deactivate() {}
@@ -0,0 +1,42 @@
+import * as path from 'path';
+import { ImportReference, LanguageAnalyzer, ResolveContext } from '../types';
+import { lineStarts, rangeAt } from './ImportMatching';
+import { byExtension } from '../LanguageRegistry';
+
+/**
+ * Extracts `#include "x.h"` and `#include <x.h>`. Angle-bracket includes
+ * keep their brackets so the resolver can tell them apart.
+ */
+export function parseCIncludes(content: string): ImportReference[] {
+    const imports: ImportReference[] = [];
+    const lines = lineStarts(content);
+    const regex = /^[ \t]*#[ \t]*include[ \t]*(?:"([^"]+)"|(<[^>]+>))/gm;
+    let match;
+    while ((match = regex.exec(content)) !== null) {
+        imports.push({ specifier: match[1] || match[2], kind: 'static', ...rangeAt(lines, match.index, match.index + match[0].length) });
+    }
+    return imports;
+}
+
+/**
+ * Quoted includes are looked up next to the including file, then in the
+ * include directories, then from each root. Angle-bracket includes only
+ * use the include directories, so system headers never match project context.
+ */
+export function resolveCInclude(specifier: string, fromFile: string, context: ResolveContext): string[] {
+    const isSystem = specifier.startsWith('<');
+    const header = isSystem ? specifier.slice(1, -1) : specifier;
+    const dirs = isSystem
+        ? context.includeDirs
+        : [path.dirname(fromFile), ...context.includeDirs, ...context.roots];
+
+    const target = dirs.map(dir => path.resolve(dir, header)).find(p => context.isKnownFile(p));
+    return target ? [target] : [];
+}
+
+export const cFamilyAnalyzer: LanguageAnalyzer = {
+    id: 'c',
+    matches: byExtension('.c', '.cc', '.cpp', '.h', '.hpp'),
+    extractImports: parseCIncludes,
+    resolve: resolveCInclude
+};
@@ -0,0 +1,23 @@
+import { ImportReference, LanguageAnalyzer } from '../types';
+import { matchImports } from './ImportMatching';
+import { byExtension } from '../LanguageRegistry';
+
+/**
+ * Extracts `@import` (as `static`) and quoted `url()` references (as `asset`).
+ */
+export function parseCssImports(content: string): ImportReference[] {
+    return [
+        ...matchImports(content, /@import\s+['"](.*?)['"]/g, 'static'),
+        ...matchImports(content, /url\(['"](.*?)['"]\)/g, 'asset')
+    ];
+}
+
+export const cssAnalyzer: LanguageAnalyzer = {
+    id: 'css',
+    matches: byExtension('.css', '.scss'),
+    extractImports: parseCssImports,
+    resolve: (specifier, fromFile, context) => {
+        const target = context.resolveModule(specifier, fromFile);
+        return target ? [target] : [];
+    }
+};
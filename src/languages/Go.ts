@@ -0,0 +1,57 @@
+import * as path from 'path';
+import { ImportReference, LanguageAnalyzer, ResolveContext } from '../types';
+import { lineStarts, rangeAt } from './ImportMatching';
+import { byExtension } from '../LanguageRegistry';
+
+/**
+ * Extracts single (`import "a/b"`, `import x "a/b"`) and grouped
+ * (`import ( ... )`) imports.
+ */
+export function parseGoImports(content: string): ImportReference[] {
+    const imports: ImportReference[] = [];
+    const lines = lineStarts(content);
+    const regex = /^import\s*(?:\(([^)]*)\)|(?:[\w.]+\s+)?"([^"]+)")/gm;
+    let match;
+    while ((match = regex.exec(content)) !== null) {
+        if (match[2]) {
+            imports.push({ specifier: match[2], kind: 'static', ...rangeAt(lines, match.index, match.index + match[0].length) });
+            continue;
+        }
+
+        const blockStart = match.index + match[0].indexOf('(') + 1;
+        const entry = /^\s*(?:[\w.]+\s+)?"([^"]+)"/gm;
+        let item;
+        while ((item = entry.exec(match[1])) !== null) {
+            const offset = blockStart + item.index + item[0].length - item[0].trimStart().length;
+            imports.push({ specifier: item[1], kind: 'static', ...rangeAt(lines, offset, blockStart + item.index + item[0].length) });
+        }
+    }
+    return imports;
+}
+
+/**
+ * Resolves imports of packages inside the module declared by the nearest
+ * go.mod. A Go import names a directory, so the link points at the file
+ * that best represents the package: `<dir>/<dir>.go`, then `doc.go`, then
+ * the first non-test file.
+ */
+export function resolveGoImport(specifier: string, fromFile: string, context: ResolveContext): string[] {
+    const goMod = context.findUp(fromFile, 'go.mod');
+    const modulePath = goMod && context.readConfig(goMod, content => /^module\s+(\S+)/m.exec(content)?.[1]);
+    if (!goMod || !modulePath || (specifier !== modulePath && !specifier.startsWith(modulePath + '/'))) {
+        return [];
+    }
+
+    const dir = path.join(path.dirname(goMod), specifier.slice(modulePath.length));
+    const sources = context.inDirectory(dir).filter(p => p.endsWith('.go') && !p.endsWith('_test.go'));
+    const preferred = [path.join(dir, path.basename(dir) + '.go'), path.join(dir, 'doc.go')];
+    const target = preferred.find(p => sources.includes(p)) || sources[0];
+    return target ? [target] : [];
+}
+
+export const goAnalyzer: LanguageAnalyzer = {
+    id: 'go',
+    matches: byExtension('.go'),
+    extractImports: parseGoImports,
+    resolve: resolveGoImport
+};
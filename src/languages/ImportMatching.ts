@@ -0,0 +1,80 @@
+import * as path from 'path';
+import { ImportKind, ImportReference } from '../types';
+
+/**
+ * Offsets at which the lines of `content` start. Built once per file so
+ * that positions can be looked up without rescanning the text.
+ */
+export function lineStarts(content: string): number[] {
+    const starts = [0];
+    for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) {
+        starts.push(i + 1);
+    }
+    return starts;
+}
+
+/**
+ * Converts a character offset into a zero-based line and column, given the
+ * file's `lineStarts`.
+ */
+export function positionAt(starts: number[], index: number): { line: number; column: number } {
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+        const middle = (low + high + 1) >> 1;
+        if (starts[middle] <= index) {
+            low = middle;
+        } else {
+            high = middle - 1;
+        }
+    }
+    return { line: low, column: index - starts[low] };
+}
+
+/**
+ * Converts the character offsets `start` and `end` into the zero-based
+ * position fields of an ImportReference, given the file's `lineStarts`.
+ */
+export function rangeAt(starts: number[], start: number, end: number): { line: number; column: number; endLine: number; endColumn: number } {
+    const { line, column } = positionAt(starts, start);
+    // Imports span few lines, so walking on from the start beats a second search
+    let endLine = line;
+    while (endLine + 1 < starts.length && starts[endLine + 1] <= end) {
+        endLine++;
+    }
+    return { line, column, endLine, endColumn: end - starts[endLine] };
+}
+
+/**
+ * Collects the first non-empty capture group of every regex match as an import of `kind`.
+ * The regex must be global.
+ */
+export function matchImports(content: string, regex: RegExp, kind: ImportKind): ImportReference[] {
+    const imports: ImportReference[] = [];
+    const lines = lineStarts(content);
+    let match;
+    while ((match = regex.exec(content)) !== null) {
+        const specifier = match.slice(1).find(group => !!group);
+        if (specifier) {
+            imports.push({ specifier, kind, ...rangeAt(lines, match.index, match.index + match[0].length) });
+        }
+    }
+    return imports;
+}
+
+/**
+ * Of several candidate files or directories, picks the one closest to the
+ * importing file (longest shared directory prefix, then shortest path).
+ */
+export function closestTo(fromFile: string, candidates: string[]): string | undefined {
+    const fromSegments = path.dirname(fromFile).split(path.sep);
+    const shared = (candidate: string) => {
+        const segments = candidate.split(path.sep);
+        let i = 0;
+        while (i < segments.length && i < fromSegments.length && segments[i] === fromSegments[i]) {
+            i++;
+        }
+        return i;
+    };
+    return [...candidates].sort((a, b) => shared(b) - shared(a) || a.length - b.length)[0];
+}
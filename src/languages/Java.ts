@@ -0,0 +1,54 @@
+import * as path from 'path';
+import { ImportReference, LanguageAnalyzer, ResolveContext } from '../types';
+import { closestTo, lineStarts, rangeAt } from './ImportMatching';
+import { byExtension } from '../LanguageRegistry';
+
+/**
+ * Extracts `import a.b.C;`, `import a.b.*;` and `import static a.b.C.m;`.
+ * Static imports are recorded without the `static` keyword.
+ */
+export function parseJavaImports(content: string): ImportReference[] {
+    const imports: ImportReference[] = [];
+    const lines = lineStarts(content);
+    const regex = /^[ \t]*import\s+(static\s+)?([\w.]+(?:\.\*)?)\s*;/gm;
+    let match;
+    while ((match = regex.exec(content)) !== null) {
+        const specifier = match[1] ? match[2].replace(/\.\*$/, '') : match[2];
+        imports.push({ specifier, kind: 'static', ...rangeAt(lines, match.index, match.index + match[0].length) });
+    }
+    return imports;
+}
+
+/**
+ * Finds the source files of an imported class or package. Source roots are
+ * not configured: a class `a.b.C` is any scanned `a/b/C.java`, so Maven,
+ * Gradle and plain `src/` layouts all work. Nested classes and static
+ * members are handled by dropping trailing segments until a file matches.
+ */
+export function resolveJavaImport(specifier: string, fromFile: string, context: ResolveContext): string[] {
+    const segments = specifier.split('.');
+
+    if (segments[segments.length - 1] === '*') {
+        const packageDirs = context.directoriesEndingWith(path.sep + segments.slice(0, -1).join(path.sep));
+        const dir = closestTo(fromFile, packageDirs);
+        return dir ? context.inDirectory(dir).filter(p => p.endsWith('.java')) : [];
+    }
+
+    for (let length = segments.length; length > 1; length--) {
+        const relative = segments.slice(0, length).join(path.sep) + '.java';
+        const candidates = context.named(segments[length - 1] + '.java')
+            .filter(p => p.endsWith(path.sep + relative));
+        const target = closestTo(fromFile, candidates);
+        if (target) {
+            return [target];
+        }
+    }
+    return [];
+}
+
+export const javaAnalyzer: LanguageAnalyzer = {
+    id: 'java',
+    matches: byExtension('.java'),
+    extractImports: parseJavaImports,
+    resolve: resolveJavaImport
+};
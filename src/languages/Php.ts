@@ -0,0 +1,96 @@
+import * as path from 'path';
+import { ImportReference, LanguageAnalyzer, ResolveContext } from '../types';
+import { lineStarts, rangeAt } from './ImportMatching';
+import { byExtension } from '../LanguageRegistry';
+
+/**
+ * Extracts `require`/`include` (and their `_once` forms) of string paths,
+ * optionally prefixed with `__DIR__ .` or `dirname(__FILE__) .`, and
+ * namespace `use` statements, including grouped and comma-separated ones.
+ */
+export function parsePhpImports(content: string): ImportReference[] {
+    const imports: ImportReference[] = [];
+    const lines = lineStarts(content);
+
+    const includes = /\b(?:require|include)(?:_once)?\s*\(?\s*(__DIR__\s*\.\s*|dirname\(\s*__FILE__\s*\)\s*\.\s*)?['"]([^'"]+)['"]/g;
+    let match;
+    while ((match = includes.exec(content)) !== null) {
+        const specifier = match[1] ? './' + match[2].replace(/^\/+/, '') : match[2];
+        imports.push({ specifier, kind: 'require', ...rangeAt(lines, match.index, match.index + match[0].length) });
+    }
+
+    const uses = /^[ \t]*use\s+(?:function\s+|const\s+)?([\w\\][^;]*);/gm;
+    while ((match = uses.exec(content)) !== null) {
+        const position = rangeAt(lines, match.index, match.index + match[0].length);
+        for (const specifier of expandUse(match[1])) {
+            imports.push({ specifier, kind: 'static', ...position });
+        }
+    }
+    return imports;
+}
+
+function expandUse(clause: string): string[] {
+    const clean = (name: string) => name.replace(/\s+as\s+\w+\s*$/i, '').trim().replace(/^\\/, '');
+    const open = clause.indexOf('{');
+    if (open !== -1) {
+        const prefix = clean(clause.slice(0, open));
+        const items = clause.slice(open + 1, clause.lastIndexOf('}')).split(',');
+        return items.map(clean).filter(item => !!item).map(item => prefix + item);
+    }
+    return clause.split(',').map(clean).filter(item => !!item);
+}
+
+/**
+ * Resolves included paths relative to the including file, and namespaced
+ * classes through the PSR-4 `autoload` (and `autoload-dev`) mappings of
+ * the nearest composer.json.
+ */
+export function resolvePhpImport(specifier: string, fromFile: string, context: ResolveContext): string[] {
+    if (specifier.includes('/') || /\.(php|inc|phtml)$/i.test(specifier)) {
+        const target = path.resolve(path.dirname(fromFile), specifier);
+        return context.isKnownFile(target) ? [target] : [];
+    }
+
+    const composer = context.findUp(fromFile, 'composer.json');
+    const mappings = composer && context.readConfig(composer, readPsr4);
+    if (!composer || !mappings) {
+        return [];
+    }
+
+    const prefixes = Object.keys(mappings)
+        .filter(prefix => specifier.startsWith(prefix))
+        .sort((a, b) => b.length - a.length);
+    for (const prefix of prefixes) {
+        const relative = specifier.slice(prefix.length).split('\\').join(path.sep) + '.php';
+        for (const dir of mappings[prefix]) {
+            const target = path.join(path.dirname(composer), dir, relative);
+            if (context.isKnownFile(target)) {
+                return [target];
+            }
+        }
+    }
+    return [];
+}
+
+function readPsr4(content: string): Record<string, string[]> {
+    const manifest = JSON.parse(content);
+    const mappings: Record<string, string[]> = {};
+    for (const section of [manifest.autoload, manifest['autoload-dev']]) {
+        const psr4 = section && section['psr-4'];
+        if (!psr4 || typeof psr4 !== 'object') {
+            continue;
+        }
+        for (const [prefix, dirs] of Object.entries(psr4)) {
+            const list = (Array.isArray(dirs) ? dirs : [dirs]).filter((d): d is string => typeof d === 'string');
+            mappings[prefix] = [...(mappings[prefix] || []), ...list];
+        }
+    }
+    return mappings;
+}
+
+export const phpAnalyzer: LanguageAnalyzer = {
+    id: 'php',
+    matches: byExtension('.php'),
+    extractImports: parsePhpImports,
+    resolve: resolvePhpImport
+};
@@ -0,0 +1,132 @@
+import * as path from 'path';
+import { ImportReference, LanguageAnalyzer, ResolveContext } from '../types';
+import { lineStarts, rangeAt } from './ImportMatching';
+import { byExtension } from '../LanguageRegistry';
+
+/**
+ * Extracts `import a.b.c, d as e` and `from x.y import a, b` (including
+ * relative `from .models import User` and parenthesized name lists).
+ * Each imported name of a `from` import is recorded as `module.name`,
+ * because the name may be a submodule; the resolver falls back to the
+ * module itself when it is not.
+ */
+export function parsePythonImports(content: string): ImportReference[] {
+    const imports: ImportReference[] = [];
+    const lines = lineStarts(content);
+    const regex = /^[ \t]*(?:from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n#;]+)|import[ \t]+([^\n#;]+))/gm;
+    let match;
+    while ((match = regex.exec(content)) !== null) {
+        const position = rangeAt(lines, match.index + match[0].length - match[0].trimStart().length, match.index + match[0].trimEnd().length);
+        const names = (match[2] || match[3]).replace(/[()\\]/g, ' ').split(',')
+            .map(name => name.trim().split(/\s+as\s+/)[0].trim())
+            .filter(name => /^[\w.*]+$/.test(name));
+
+        for (const name of names) {
+            let specifier = name;
+            if (match[3] === undefined) {
+                const module = match[1];
+                specifier = name === '*' ? module : module.endsWith('.') ? module + name : module + '.' + name;
+            }
+            imports.push({ specifier, kind: 'static', ...position });
+        }
+    }
+    return imports;
+}
+
+/**
+ * Resolves a dotted module path to `module.py` or `package/__init__.py`.
+ * Relative paths start at the importing file's package; absolute ones are
+ * looked up in the source roots. If the full path is not a module, the
+ * last segment is taken to be a name defined in its parent module.
+ */
+export function resolvePythonImport(specifier: string, fromFile: string, context: ResolveContext): string[] {
+    const dots = /^\.*/.exec(specifier)![0].length;
+    const segments = specifier.slice(dots).split('.').filter(s => !!s);
+
+    let bases: string[];
+    if (dots > 0) {
+        let dir = path.dirname(fromFile);
+        for (let i = 1; i < dots; i++) {
+            dir = path.dirname(dir);
+        }
+        bases = [dir];
+    } else {
+        bases = getSourceRoots(fromFile, context);
+    }
+
+    const attempts = segments.length > 1 || dots > 0 ? [segments, segments.slice(0, -1)] : [segments];
+    for (const attempt of attempts) {
+        for (const base of bases) {
+            const target = findModule(base, attempt, context);
+            if (target && target !== fromFile) {
+                return [target];
+            }
+        }
+    }
+    return [];
+}
+
+function findModule(base: string, segments: string[], context: ResolveContext): string | undefined {
+    const modulePath = path.join(base, ...segments);
+    const candidates = segments.length > 0
+        ? [modulePath + '.py', path.join(modulePath, '__init__.py')]
+        : [path.join(modulePath, '__init__.py')];
+    return candidates.find(p => context.isKnownFile(p));
+}
+
+/**
+ * Directories absolute imports are resolved against, most specific first:
+ * the folder above the importing file's top-level package, configured
+ * Python paths, the source directories named in the nearest
+ * pyproject.toml, its own folder and its `src/`, and finally the root.
+ */
+function getSourceRoots(fromFile: string, context: ResolveContext): string[] {
+    const roots: string[] = [];
+
+    let packageDir = path.dirname(fromFile);
+    while (context.isKnownFile(path.join(packageDir, '__init__.py')) && path.dirname(packageDir) !== packageDir) {
+        packageDir = path.dirname(packageDir);
+    }
+    roots.push(packageDir, ...context.pythonPaths);
+
+    const pyproject = context.findUp(fromFile, 'pyproject.toml');
+    if (pyproject) {
+        const projectDir = path.dirname(pyproject);
+        const dirs = context.readConfig(pyproject, readSourceDirs) || [];
+        roots.push(...dirs.map(dir => path.resolve(projectDir, dir)), projectDir, path.join(projectDir, 'src'));
+    }
+
+    const root = context.findRoot(fromFile);
+    if (root) {
+        roots.push(root, path.join(root, 'src'));
+    }
+    return [...new Set(roots)];
+}
+
+/**
+ * Picks source directories out of pyproject.toml without a full TOML
+ * parser: setuptools `where`/`package-dir`, Poetry `from` and pytest `pythonpath`.
+ */
+function readSourceDirs(content: string): string[] {
+    const dirs: string[] = [];
+    const strings = (list: string) => [...list.matchAll(/["']([^"']*)["']/g)].map(m => m[1]);
+
+    for (const match of content.matchAll(/^\s*(?:where|pythonpath)\s*=\s*\[([^\]]*)\]/gm)) {
+        dirs.push(...strings(match[1]));
+    }
+    for (const match of content.matchAll(/\bfrom\s*=\s*["']([^"']+)["']/g)) {
+        dirs.push(match[1]);
+    }
+    const packageDir = /^\s*package-dir\s*=\s*\{\s*["']{2}\s*=\s*["']([^"']+)["']/m.exec(content);
+    if (packageDir) {
+        dirs.push(packageDir[1]);
+    }
+    return dirs.filter(dir => !!dir);
+}
+
+export const pythonAnalyzer: LanguageAnalyzer = {
+    id: 'python',
+    matches: byExtension('.py'),
+    extractImports: parsePythonImports,
+    resolve: resolvePythonImport
+};
@@ -0,0 +1,119 @@
+import * as path from 'path';
+import { ImportReference, LanguageAnalyzer, ResolveContext } from '../types';
+import { lineStarts, rangeAt } from './ImportMatching';
+import { byExtension } from '../LanguageRegistry';
+
+/**
+ * Extracts `mod name;` declarations (recorded as `self::name`) and `use`
+ * paths. One level of braces is expanded, so `use crate::a::{b, c::d};`
+ * yields `crate::a::b` and `crate::a::c::d`.
+ */
+export function parseRustImports(content: string): ImportReference[] {
+    const imports: ImportReference[] = [];
+    const lines = lineStarts(content);
+    const regex = /^[ \t]*(?:pub(?:\([^)]*\))?\s+)?(?:mod\s+(\w+)\s*;|use\s+([^;]+);)/gm;
+    let match;
+    while ((match = regex.exec(content)) !== null) {
+        const position = rangeAt(lines, match.index, match.index + match[0].length);
+        const specifiers = match[1] ? ['self::' + match[1]] : expandUseTree(match[2].replace(/\s+as\s+\w+/g, '').replace(/\s+/g, ''));
+        for (const specifier of specifiers) {
+            imports.push({ specifier, kind: 'static', ...position });
+        }
+    }
+    return imports;
+}
+
+function expandUseTree(tree: string): string[] {
+    const open = tree.indexOf('{');
+    if (open === -1) {
+        return [tree];
+    }
+    const prefix = tree.slice(0, open);
+    const inner = tree.slice(open + 1, tree.lastIndexOf('}'));
+    if (inner.includes('{')) {
+        // Nested groups: the common prefix is as precise as we get
+        return [prefix.replace(/::$/, '')];
+    }
+    return inner.split(',').filter(item => !!item).map(item =>
+        item === 'self' ? prefix.replace(/::$/, '') : prefix + item);
+}
+
+/**
+ * Resolves crate-relative (`crate::`), `self::`, `super::` and bare module
+ * paths to `name.rs` or `name/mod.rs` files, following as many path
+ * segments as exist on disk. Paths that name an item rather than a module
+ * resolve to the module that defines it; paths into other crates do not
+ * resolve.
+ */
+export function resolveRustImport(specifier: string, fromFile: string, context: ResolveContext): string[] {
+    const segments = specifier.split('::').filter(s => s !== '*');
+    let dir = moduleDir(fromFile, context);
+    let isBare = false;
+
+    if (segments[0] === 'crate') {
+        dir = crateDir(fromFile, context);
+        segments.shift();
+    } else if (segments[0] === 'self') {
+        segments.shift();
+    } else if (segments[0] === 'super') {
+        while (segments[0] === 'super') {
+            dir = path.dirname(dir);
+            segments.shift();
+        }
+    } else {
+        isBare = true;
+    }
+
+    let target: string | undefined;
+    for (const segment of segments) {
+        const next = [path.join(dir, segment + '.rs'), path.join(dir, segment, 'mod.rs')].find(p => context.isKnownFile(p));
+        if (!next) {
+            break;
+        }
+        target = next;
+        dir = path.join(dir, segment);
+    }
+
+    if (!target && !isBare) {
+        target = moduleFile(dir, fromFile, context);
+    }
+    return target ? [target] : [];
+}
+
+/**
+ * Directory holding the child modules of the module defined by a file:
+ * the file's own directory for crate roots and mod.rs, `<dir>/<name>` otherwise.
+ */
+function moduleDir(fullPath: string, context: ResolveContext): string {
+    const name = path.basename(fullPath, '.rs');
+    const dir = path.dirname(fullPath);
+    if (name === 'mod' || ((name === 'lib' || name === 'main') && dir === crateDir(fullPath, context))) {
+        return dir;
+    }
+    return path.join(dir, name);
+}
+
+/**
+ * The crate's source directory: `src` next to the nearest Cargo.toml.
+ */
+function crateDir(fullPath: string, context: ResolveContext): string {
+    const cargo = context.findUp(fullPath, 'Cargo.toml');
+    return cargo ? path.join(path.dirname(cargo), 'src') : path.dirname(fullPath);
+}
+
+/**
+ * The file that defines the module whose children live in `dir`.
+ */
+function moduleFile(dir: string, fromFile: string, context: ResolveContext): string | undefined {
+    const candidates = dir === crateDir(fromFile, context)
+        ? [path.join(dir, 'lib.rs'), path.join(dir, 'main.rs')]
+        : [dir + '.rs', path.join(dir, 'mod.rs')];
+    return candidates.find(p => context.isKnownFile(p));
+}
+
+export const rustAnalyzer: LanguageAnalyzer = {
+    id: 'rust',
+    matches: byExtension('.rs'),
+    extractImports: parseRustImports,
+    resolve: resolveRustImport
+};
@@ -0,0 +1,13 @@
+import { LanguageAnalyzer } from '../types';
+import { parseTypeScriptImports } from '../TypeScriptImportParser';
+import { byExtension } from '../LanguageRegistry';
+
+export const typeScriptAnalyzer: LanguageAnalyzer = {
+    id: 'typescript',
+    matches: byExtension('.ts', '.tsx', '.js', '.jsx'),
+    extractImports: parseTypeScriptImports,
+    resolve: (specifier, fromFile, context) => {
+        const target = context.resolveModule(specifier, fromFile);
+        return target ? [target] : [];
+    }
+};
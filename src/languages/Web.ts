@@ -0,0 +1,85 @@
+import * as path from 'path';
+import { ImportReference, LanguageAnalyzer, ResolveContext } from '../types';
+import { closestTo, matchImports } from './ImportMatching';
+import { byExtension } from '../LanguageRegistry';
+
+/**
+ * Extracts `<script src>` (as `static`) and `<link href>` (as `asset`) references.
+ */
+export function parseHtmlReferences(content: string): ImportReference[] {
+    return [
+        ...matchImports(content, /<script\b[^>]*?\bsrc\s*=\s*["']([^"']+)["']/gi, 'static'),
+        ...matchImports(content, /<link\b[^>]*?\bhref\s*=\s*["']([^"']+)["']/gi, 'asset')
+    ];
+}
+
+/**
+ * Extracts relative Markdown links and images and `[[wikilinks]]`, which
+ * are recorded with their brackets. Fenced code blocks are skipped.
+ */
+export function parseMarkdownLinks(content: string): ImportReference[] {
+    // Blank out code blocks without moving any line or column
+    const text = content.replace(/^(```|~~~)[\s\S]*?^\1/gm, block => block.replace(/[^\n]/g, ' '));
+    return [
+        ...matchImports(text, /!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^)]*)?\)/g, 'static'),
+        ...matchImports(text, /(\[\[[^\]]+\]\])/g, 'static')
+    ];
+}
+
+/**
+ * Resolves a URL-style reference from HTML or Markdown. External URLs and
+ * pure anchors are ignored, a leading `/` means the root, and a directory
+ * link resolves to its index.html or README.md.
+ */
+export function resolveWebReference(specifier: string, fromFile: string, context: ResolveContext): string[] {
+    if (specifier.startsWith('[[')) {
+        return resolveWikilink(specifier.slice(2, -2), fromFile, context);
+    }
+    if (/^[a-z][a-z\d+.-]*:/i.test(specifier) || specifier.startsWith('//') || specifier.startsWith('#')) {
+        return [];
+    }
+
+    let target = specifier.replace(/[?#].*$/, '');
+    try {
+        target = decodeURIComponent(target);
+    } catch {
+        // Keep malformed escapes as written.
+    }
+    const root = context.findRoot(fromFile);
+    const base = target.startsWith('/') && root ? path.join(root, target) : path.resolve(path.dirname(fromFile), target);
+
+    const candidates = [base, base + '.md', path.join(base, 'index.html'), path.join(base, 'README.md')];
+    const found = candidates.find(p => context.isKnownFile(p));
+    return found ? [found] : [];
+}
+
+/**
+ * `[[Note]]`, `[[folder/Note|alias]]` or `[[Note#Heading]]`: the closest
+ * file with that name, `.md` implied.
+ */
+function resolveWikilink(link: string, fromFile: string, context: ResolveContext): string[] {
+    const name = link.split('|')[0].split('#')[0].trim();
+    if (!name) {
+        return [];
+    }
+    const fileName = path.extname(name) ? name : name + '.md';
+    const relative = fileName.split('/').join(path.sep);
+    const candidates = context.named(path.basename(relative))
+        .filter(p => p === relative || p.endsWith(path.sep + relative));
+    const target = closestTo(fromFile, candidates);
+    return target ? [target] : [];
+}
+
+export const htmlAnalyzer: LanguageAnalyzer = {
+    id: 'html',
+    matches: byExtension('.html'),
+    extractImports: parseHtmlReferences,
+    resolve: resolveWebReference
+};
+
+export const markdownAnalyzer: LanguageAnalyzer = {
+    id: 'markdown',
+    matches: byExtension('.md'),
+    extractImports: parseMarkdownLinks,
+    resolve: resolveWebReference
+};
@@ -0,0 +1,56 @@
+import * as path from 'path';
+import { LanguageAnalyzer } from '../types';
+import { LanguageRegistry, byExtension } from '../LanguageRegistry';
+import { typeScriptAnalyzer } from './TypeScript';
+import { cssAnalyzer } from './Css';
+import { pythonAnalyzer } from './Python';
+import { javaAnalyzer } from './Java';
+import { goAnalyzer } from './Go';
+import { rustAnalyzer } from './Rust';
+import { phpAnalyzer } from './Php';
+import { cFamilyAnalyzer } from './CFamily';
+import { htmlAnalyzer, markdownAnalyzer } from './Web';
+
+/**
+ * JSON files are shown on the graph but have no imports of their own.
+ */
+const jsonAnalyzer: LanguageAnalyzer = {
+    id: 'json',
+    matches: byExtension('.json'),
+    extractImports: () => [],
+    resolve: () => []
+};
+
+/**
+ * Shows files of the configured extra types on the graph, without imports.
+ * @param fileTypes Extensions such as `.sql`, or whole file names such as `Dockerfile`.
+ */
+export function plainFileAnalyzer(fileTypes: string[]): LanguageAnalyzer {
+    const types = fileTypes.map(type => type.toLowerCase());
+    return {
+        id: 'plain',
+        matches: fileName => types.includes(fileName.toLowerCase()) || types.includes(path.extname(fileName).toLowerCase()),
+        extractImports: () => [],
+        resolve: () => []
+    };
+}
+
+export const builtinAnalyzers: LanguageAnalyzer[] = [
+    typeScriptAnalyzer,
+    cssAnalyzer,
+    pythonAnalyzer,
+    javaAnalyzer,
+    goAnalyzer,
+    rustAnalyzer,
+    phpAnalyzer,
+    cFamilyAnalyzer,
+    htmlAnalyzer,
+    markdownAnalyzer,
+    jsonAnalyzer
+];
+
+/**
+ * The registry used by scanners that are not given one. Analyzers
+ * contributed through the extension API are added here.
+ */
+export const languageRegistry = new LanguageRegistry(builtinAnalyzers);
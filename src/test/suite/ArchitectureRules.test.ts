@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkRootRules, checkRules, loadRules, parseRules, RootRules, rulesFileName } from '../../ArchitectureRules';
+import { GraphData, Link, RulesConfig } from '../../types';
+
+const id = (relativePath: string) => relativePath.split('/').join(path.sep);
+
+function graph(edges: [string, string][]): GraphData {
+	const ids = new Set(edges.flat());
+	return {
+		nodes: [...ids].map(n => ({ id: id(n), name: path.basename(n), type: '.ts', size: 1, preview: '' })),
+		links: edges.map(([source, target]): Link => ({ source: id(source), target: id(target), kind: 'static', weight: 1, line: 3, column: 0, endLine: 3, endColumn: 24 }))
+	};
+}
+
+suite('ArchitectureRules Test Suite', () => {
+	const data = graph([
+		['src/ui/page.ts', 'src/db/users.ts'],
+		['src/ui/page.ts', 'src/services/users.ts'],
+		['src/services/users.ts', 'src/db/users.ts'],
+		['src/domain/order.ts', 'src/services/users.ts'],
+		['src/domain/order.ts', 'src/domain/money.ts']
+	]);
+
+	const broken = (config: RulesConfig) => checkRules(data, config)
+		.map(v => `${v.source} -> ${v.target}`.split(path.sep).join('/'));
+
+	test('deny patterns flag matching imports on their source line', () => {
+		const violations = checkRules(data, { rules: [{ name: 'ui-no-db', from: 'src/ui/**', deny: ['src/db/**'], severity: 'error' }] });
+
+		assert.strictEqual(violations.length, 1);
+		assert.deepStrictEqual([violations[0].rule, violations[0].severity, violations[0].line, violations[0].endColumn], ['ui-no-db', 'error', 3, 24]);
+		assert.strictEqual(violations[0].message, 'src/ui/page.ts must not import src/db/users.ts (rule "ui-no-db")');
+	});
+
+	test('allow patterns flag everything else', () => {
+		assert.deepStrictEqual(broken({ rules: [{ from: ['src/domain/**'], allow: ['src/domain/**'] }] }), ['src/domain/order.ts -> src/services/users.ts']);
+	});
+
+	test('internal directories are private to their parent', () => {
+		const internal = graph([
+			['pkg/api/handler.ts', 'pkg/api/internal/auth.ts'],
+			['pkg/api/internal/auth.ts', 'pkg/api/internal/token.ts'],
+			['cmd/main.ts', 'pkg/api/internal/auth.ts']
+		]);
+		const violations = checkRules(internal, { internal: ['internal'] });
+
+		assert.deepStrictEqual(violations.map(v => v.source), [id('cmd/main.ts')]);
+		assert.strictEqual(violations[0].message, 'pkg/api/internal/auth.ts is internal to pkg/api and cannot be imported from cmd/main.ts');
+	});
+
+	test('rejects malformed rules files with the file name', () => {
+		assert.throws(() => parseRules('{ "rules": [', 'rules.json'), /^Error: rules\.json: /);
+		assert.throws(() => parseRules('{ "rules": [{ "from": "src/**" }] }', 'rules.json'), /rule 1 needs "from" and "allow" or "deny"/);
+	});
+
+	test('reads the rules file of every root', () => {
+		const roots = [0, 1, 2].map(() => fs.mkdtempSync(path.join(os.tmpdir(), 'constellation-rules-')));
+		try {
+			fs.writeFileSync(path.join(roots[0], rulesFileName), '{ "rules": [{ "from": "a/**", "deny": ["b/**"] }] }');
+			fs.writeFileSync(path.join(roots[1], rulesFileName), '{ "internal": ["internal"] }');
+
+			assert.deepStrictEqual(loadRules(roots, ['web', 'api', 'docs']), [
+				{ rootPath: roots[0], prefix: 'web', config: { rules: [{ from: 'a/**', deny: ['b/**'] }] } },
+				{ rootPath: roots[1], prefix: 'api', config: { internal: ['internal'] } }
+			]);
+			assert.strictEqual(loadRules([roots[2]]), undefined);
+		} finally {
+			roots.forEach(root => fs.rmSync(root, { recursive: true, force: true }));
+		}
+	});
+
+	test('matches the rules of a root against the files of that root only', () => {
+		const workspace = graph([
+			['web/src/ui/page.ts', 'web/src/db/users.ts'],
+			['api/src/ui/page.ts', 'api/src/db/users.ts'],
+			['api/src/ui/page.ts', 'web/internal/session.ts'],
+			['web/src/ui/page.ts', 'web/internal/session.ts']
+		]);
+		const rules: RootRules[] = [
+			{ rootPath: '/web', prefix: 'web', config: { rules: [{ from: 'src/ui/**', deny: ['src/db/**'] }], internal: ['internal'] } },
+			{ rootPath: '/api', prefix: 'api', config: {} }
+		];
+
+		const violations = checkRootRules(workspace, rules);
+		assert.deepStrictEqual(violations.map(v => `${v.rule}: ${v.source} -> ${v.target}`.split(path.sep).join('/')), [
+			'rule 1: web/src/ui/page.ts -> web/src/db/users.ts',
+			'internal: api/src/ui/page.ts -> web/internal/session.ts'
+		]);
+		assert.strictEqual(violations[1].message, 'web/internal/session.ts is internal to web and cannot be imported from api/src/ui/page.ts');
+	});
+});
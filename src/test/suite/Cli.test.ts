@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runCli } from '../../cli';
+
+suite('CLI Test Suite', () => {
+	let root: string;
+
+	const write = (relativePath: string, content = '') => {
+		const fullPath = path.join(root, relativePath);
+		fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+		fs.writeFileSync(fullPath, content);
+	};
+
+	const run = async (...args: string[]) => {
+		const result = { code: 0, stdout: '', stderr: '' };
+		result.code = await runCli(args, {
+			stdout: text => { result.stdout += text; },
+			stderr: text => { result.stderr += text; }
+		});
+		return result;
+	};
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'constellation-cli-'));
+		write('src/index.ts', "import './ui/page';");
+		write('src/ui/page.ts', "import '../db/users';");
+		write('src/db/users.ts', "import type { Page } from '../ui/page';");
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('prints statistics and cycles without failing by default', async () => {
+		const result = await run(root);
+
+		assert.strictEqual(result.code, 0);
+		assert.ok(result.stdout.startsWith('3 files, 3 links\n'));
+		assert.ok(result.stdout.includes('1 import cycle:\n  1. src/db/users.ts → src/ui/page.ts\n'));
+	});
+
+	test('fails when cycles exceed the allowed number', async () => {
+		assert.strictEqual((await run(root, '--check-cycles')).code, 1);
+		assert.strictEqual((await run(root, '--max-cycles', '1')).code, 0);
+		assert.strictEqual((await run(root, '--check-cycles', '--hide', 'type')).code, 0);
+	});
+
+	test('writes the graph to stdout and reports to stderr', async () => {
+		const result = await run(root, '--format', 'json');
+		const graph = JSON.parse(result.stdout);
+
+		assert.strictEqual(graph.nodes.length, 3);
+		assert.ok(result.stderr.includes('1 import cycle'));
+	});
+
+	test('fails on architecture rule violations', async () => {
+		write('.constellation.json', '{ "rules": [{ "from": "src/ui/**", "deny": ["src/db/**"] }] }');
+		const result = await run(root);
+
+		assert.strictEqual(result.code, 1);
+		assert.ok(result.stdout.includes('src/ui/page.ts:1: src/ui/page.ts must not import src/db/users.ts (rule "rule 1")'));
+		assert.strictEqual((await run(root, '--no-check-rules')).code, 0);
+	});
+
+	test('rejects unknown options and missing rules files', async () => {
+		assert.strictEqual((await run(root, '--format', 'svg')).code, 2);
+		assert.strictEqual((await run(root, '--format', 'toString')).code, 2);
+		assert.strictEqual((await run(root, '--check-rules')).code, 2);
+		assert.strictEqual((await run(path.join(root, 'missing'))).code, 2);
+	});
+
+	test('reports output files that cannot be written', async () => {
+		const result = await run(root, '--format', 'json', '--output', path.join(root, 'missing', 'graph.json'));
+
+		assert.strictEqual(result.code, 2);
+		assert.ok(result.stderr.includes('ENOENT'), result.stderr);
+	});
+});
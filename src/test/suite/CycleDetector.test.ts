@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { findCycles, findCyclePath } from '../../CycleDetector';
+import { GraphData, Link } from '../../types';
+
+suite('CycleDetector Test Suite', () => {
+	const graph = (edges: [string, string][]): GraphData => {
+		const ids = new Set(edges.flat());
+		return {
+			nodes: [...ids].map(id => ({ id, name: id, type: '.ts', size: 1, preview: '' })),
+			links: edges.map(([source, target]): Link => ({ source, target, kind: 'static', weight: 1 }))
+		};
+	};
+
+	test('finds strongly connected components and ignores acyclic parts', () => {
+		const cycles = findCycles(graph([
+			['a', 'b'], ['b', 'c'], ['c', 'a'],
+			['c', 'd'],
+			['e', 'f'], ['f', 'e'],
+			['g', 'g']
+		]));
+
+		assert.deepStrictEqual(cycles.map(c => c.nodes), [['a', 'b', 'c'], ['e', 'f'], ['g']]);
+		assert.strictEqual(cycles[0].links.length, 3);
+	});
+
+	test('returns nothing for a DAG', () => {
+		assert.deepStrictEqual(findCycles(graph([['a', 'b'], ['b', 'c'], ['a', 'c']])), []);
+	});
+
+	test('describes the shortest loop through an edge', () => {
+		const [cycle] = findCycles(graph([['a', 'b'], ['b', 'c'], ['c', 'a'], ['b', 'a']]));
+		const link = cycle.links.find(l => l.source === 'b' && l.target === 'c')!;
+
+		assert.deepStrictEqual(findCyclePath(cycle, link), ['b', 'c', 'a', 'b']);
+	});
+});
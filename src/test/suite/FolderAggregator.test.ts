@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { aggregateByFolder } from '../../FolderAggregator';
+import { GraphData, Link, Node } from '../../types';
+
+const id = (relativePath: string) => relativePath.split('/').join(path.sep);
+
+function node(relativePath: string, size: number): Node {
+	return { id: id(relativePath), name: path.basename(relativePath), type: 'ts', size, preview: '' };
+}
+
+function link(source: string, target: string, kind: Link['kind'] = 'static'): Link {
+	return { source: id(source), target: id(target), kind, weight: 1, line: 2, column: 0 };
+}
+
+suite('FolderAggregator Test Suite', () => {
+	const data: GraphData = {
+		nodes: [
+			node('index.ts', 5),
+			node('src/app.ts', 10),
+			node('src/ui/button.ts', 20),
+			node('src/ui/form.ts', 30),
+			node('lib/util.ts', 40)
+		],
+		links: [
+			link('index.ts', 'src/app.ts'),
+			link('src/app.ts', 'src/ui/button.ts'),
+			link('src/ui/form.ts', 'src/ui/button.ts'),
+			link('src/ui/button.ts', 'lib/util.ts', 'type'),
+			link('src/ui/form.ts', 'lib/util.ts')
+		]
+	};
+
+	const edges = (graph: GraphData) => graph.links
+		.map(l => `${String(l.source).split(path.sep).join('/')} -> ${String(l.target).split(path.sep).join('/')} x${l.weight} ${l.kind}`)
+		.sort();
+
+	test('collapses top-level folders and merges their links', () => {
+		const view = aggregateByFolder(data, new Set());
+
+		assert.deepStrictEqual(view.nodes.map(n => [n.id, n.type, n.size, n.fileCount]), [
+			['index.ts', 'ts', 5, undefined],
+			['src', 'folder', 60, 3],
+			['lib', 'folder', 40, 1]
+		]);
+		assert.strictEqual(view.nodes[1].name, 'src/');
+		assert.strictEqual(view.nodes[1].preview, '3 files');
+		assert.deepStrictEqual(edges(view), ['index.ts -> src x1 static', 'src -> lib x2 static']);
+	});
+
+	test('expanded folders show their files and subfolders in place', () => {
+		const view = aggregateByFolder(data, new Set(['src']));
+
+		assert.deepStrictEqual(view.nodes.map(n => n.id).sort(), ['index.ts', 'lib', id('src/app.ts'), id('src/ui')].sort());
+		assert.deepStrictEqual(edges(view), [
+			'index.ts -> src/app.ts x1 static',
+			'src/app.ts -> src/ui x1 static',
+			'src/ui -> lib x2 static'
+		]);
+	});
+
+	test('keeps import positions only for links leaving a file', () => {
+		const view = aggregateByFolder(data, new Set(['src']));
+		const fromFile = view.links.find(l => l.source === 'index.ts')!;
+		const fromFolder = view.links.find(l => l.source === id('src/ui'))!;
+
+		assert.strictEqual(fromFile.line, 2);
+		assert.strictEqual(fromFolder.line, undefined);
+	});
+
+	test('does not modify the file graph', () => {
+		aggregateByFolder(data, new Set(['src', id('src/ui')]));
+		assert.strictEqual(data.links[3].kind, 'type');
+		assert.strictEqual(data.nodes.length, 5);
+	});
+});
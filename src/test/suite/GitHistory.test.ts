@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadGitOverlay } from '../../GitHistory';
+
+suite('GitHistory Test Suite', () => {
+	let root: string;
+
+	const git = (...args: string[]) =>
+		execFileSync('git', ['-c', 'user.name=Ada', '-c', 'user.email=ada@example.com', ...args], { cwd: root });
+
+	const commit = (relativePath: string, content: string) => {
+		const fullPath = path.join(root, relativePath);
+		fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+		fs.writeFileSync(fullPath, content);
+		git('add', '-A');
+		git('commit', '-q', '-m', 'Change ' + relativePath);
+	};
+
+	const toId = (fullPath: string) => path.relative(root, fullPath);
+
+	setup(() => {
+		root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'constellation-git-')));
+		git('init', '-q', '-b', 'main');
+		commit('src/a.ts', '1');
+		commit('src/a.ts', '2');
+		commit('src/b.ts', '1');
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('counts churn and records the last author', async () => {
+		const overlay = await loadGitOverlay([root], toId, { days: 30 });
+		const a = overlay.files[path.join('src', 'a.ts')];
+
+		assert.strictEqual(a.churn, 2);
+		assert.strictEqual(a.lastAuthor, 'Ada');
+		assert.ok(!isNaN(Date.parse(a.lastDate!)));
+		assert.strictEqual(overlay.files[path.join('src', 'b.ts')].churn, 1);
+	});
+
+	test('marks files changed on the branch and in the working tree', async () => {
+		git('checkout', '-q', '-b', 'feature');
+		commit('src/c.ts', '1');
+		fs.writeFileSync(path.join(root, 'src', 'a.ts'), '3');
+		fs.writeFileSync(path.join(root, 'new.ts'), '');
+
+		const overlay = await loadGitOverlay([root], toId, { days: 30 });
+		const changed = (key: 'changedOnBranch' | 'changedInWorkingTree') =>
+			Object.keys(overlay.files).filter(id => overlay.files[id][key]).sort();
+
+		assert.strictEqual(overlay.baseRef, 'main');
+		assert.deepStrictEqual(changed('changedOnBranch'), [path.join('src', 'c.ts')]);
+		assert.deepStrictEqual(changed('changedInWorkingTree'), ['new.ts', path.join('src', 'a.ts')].sort());
+	});
+
+	test('only reports files below the scanned root', async () => {
+		const sub = path.join(root, 'src');
+		const overlay = await loadGitOverlay([sub], fullPath => path.relative(sub, fullPath), { days: 30 });
+
+		assert.deepStrictEqual(Object.keys(overlay.files).sort(), ['a.ts', 'b.ts']);
+	});
+
+	test('rejects folders outside a repository', async () => {
+		const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'constellation-nogit-'));
+		try {
+			await assert.rejects(loadGitOverlay([outside], toId, { days: 30 }), /not inside a git repository/);
+		} finally {
+			fs.rmSync(outside, { recursive: true, force: true });
+		}
+	});
+});
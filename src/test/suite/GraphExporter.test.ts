@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { filterGraph, serializeGraph } from '../../GraphExporter';
+import { GraphData, Link, Node } from '../../types';
+
+function node(id: string, root?: string): Node {
+	return { id, name: id.split('/').pop() || id, type: 'ts', size: 10, preview: '', root };
+}
+
+function link(source: string, target: string, kind: Link['kind'] = 'static'): Link {
+	return { source, target, kind, weight: 1, line: 0, column: 0 };
+}
+
+suite('GraphExporter Test Suite', () => {
+	const data: GraphData = {
+		nodes: [node('src/a.ts'), node('src/b.ts'), node('src/"c".ts')],
+		links: [link('src/a.ts', 'src/b.ts'), link('src/b.ts', 'src/"c".ts', 'type')]
+	};
+
+	test('filterGraph drops hidden link kinds and keeps every node', () => {
+		const filtered = filterGraph(data, { hiddenLinkKinds: ['type'] });
+		assert.strictEqual(filtered.nodes.length, 3);
+		assert.deepStrictEqual(filtered.links, [data.links[0]]);
+		assert.strictEqual(filterGraph(data).links.length, 2);
+	});
+
+	test('filterGraph keeps only the visible nodes and the links between them', () => {
+		const filtered = filterGraph(data, { visibleNodeIds: ['src/b.ts', 'src/"c".ts'] });
+		assert.deepStrictEqual(filtered.nodes.map(n => n.id), ['src/b.ts', 'src/"c".ts']);
+		assert.deepStrictEqual(filtered.links, [data.links[1]]);
+	});
+
+	test('DOT quotes ids and dashes indirect links', () => {
+		const dot = serializeGraph(data, 'dot');
+		assert.ok(dot.startsWith('digraph constellation {'));
+		assert.ok(dot.includes('"src/a.ts" -> "src/b.ts" [kind="static", weight=1];'));
+		assert.ok(dot.includes('"src/b.ts" -> "src/\\"c\\".ts" [kind="type", weight=1, style=dashed];'));
+	});
+
+	test('DOT groups nodes by workspace folder when there are several', () => {
+		const dot = serializeGraph({ nodes: [node('app/a.ts', 'app'), node('lib/b.ts', 'lib')], links: [] }, 'dot');
+		assert.ok(dot.includes('subgraph cluster_0 {'));
+		assert.ok(dot.includes('label="lib";'));
+	});
+
+	test('Mermaid uses generated ids and path labels', () => {
+		assert.strictEqual(serializeGraph(data, 'mermaid'), [
+			'flowchart LR',
+			'    n0["src/a.ts"]',
+			'    n1["src/b.ts"]',
+			'    n2["src/#quot;c#quot;.ts"]',
+			'    n0 --> n1',
+			'    n1 -.->|type| n2',
+			''
+		].join('\n'));
+	});
+
+	test('GraphML escapes attributes and records link kinds', () => {
+		const graphml = serializeGraph(data, 'graphml');
+		assert.ok(graphml.includes('<node id="src/&quot;c&quot;.ts">'));
+		assert.ok(graphml.includes('<edge id="e1" source="src/b.ts" target="src/&quot;c&quot;.ts">'));
+		assert.ok(graphml.includes('<data key="kind">type</data>'));
+	});
+
+	test('JSON keeps ids, metadata and link locations without previews', () => {
+		const json = JSON.parse(serializeGraph(data, 'json'));
+		assert.deepStrictEqual(json.nodes[0], { id: 'src/a.ts', name: 'a.ts', type: 'ts', size: 10 });
+		assert.deepStrictEqual(json.links[1], { source: 'src/b.ts', target: 'src/"c".ts', kind: 'type', weight: 1, line: 0, column: 0 });
+	});
+});
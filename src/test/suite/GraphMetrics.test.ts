@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { computeMetrics } from '../../GraphMetrics';
+import { GraphData, Link } from '../../types';
+
+suite('GraphMetrics Test Suite', () => {
+	const graph = (edges: [string, string][], extraIds: string[] = []): GraphData => {
+		const ids = new Set([...edges.flat(), ...extraIds]);
+		return {
+			nodes: [...ids].map(id => ({ id, name: id, type: path.extname(id), size: 1, preview: '' })),
+			links: edges.map(([source, target]): Link => ({ source, target, kind: 'static', weight: 1 }))
+		};
+	};
+
+	test('counts direct and transitive importers and imports', () => {
+		const metrics = computeMetrics(graph([
+			['main.ts', 'a.ts'], ['main.ts', 'b.ts'], ['a.ts', 'c.ts'], ['b.ts', 'c.ts'], ['c.ts', 'd.ts']
+		]));
+
+		assert.deepStrictEqual(
+			['main.ts', 'a.ts', 'c.ts', 'd.ts'].map(id => [metrics[id].inDegree, metrics[id].outDegree, metrics[id].dependents]),
+			[[0, 2, 0], [1, 1, 1], [2, 1, 3], [1, 0, 4]]
+		);
+	});
+
+	test('files in a cycle depend on each other', () => {
+		const metrics = computeMetrics(graph([['a.ts', 'b.ts'], ['b.ts', 'a.ts'], ['b.ts', 'c.ts'], ['x.ts', 'a.ts']]));
+
+		assert.strictEqual(metrics['a.ts'].dependents, 3);
+		assert.strictEqual(metrics['b.ts'].dependents, 3);
+		assert.strictEqual(metrics['c.ts'].dependents, 3);
+		assert.strictEqual(metrics['x.ts'].dependents, 0);
+	});
+
+	test('betweenness is highest for the bridge between two halves', () => {
+		const metrics = computeMetrics(graph([['a.ts', 'hub.ts'], ['b.ts', 'hub.ts'], ['hub.ts', 'c.ts'], ['hub.ts', 'd.ts']]));
+
+		// 4 of the 12 ordered pairs of the other files route through the hub
+		assert.strictEqual(metrics['hub.ts'].betweenness, 4 / 12);
+		assert.strictEqual(metrics['a.ts'].betweenness, 0);
+	});
+
+	test('orphans are unimported files that are not entry points', () => {
+		const metrics = computeMetrics(graph([['index.ts', 'used.ts']], ['unused.ts', 'README.md', 'util.test.ts', 'main.py']));
+		const orphans = Object.keys(metrics).filter(id => metrics[id].orphan);
+
+		assert.deepStrictEqual(orphans, ['unused.ts']);
+	});
+
+	test('leaves out dependents and betweenness unless asked for details', () => {
+		const metrics = computeMetrics(graph([['a.ts', 'b.ts']]), false);
+
+		assert.deepStrictEqual(metrics['b.ts'], { inDegree: 1, outDegree: 0, dependents: undefined, betweenness: undefined, orphan: false });
+	});
+
+	test('estimates dependents of large graphs from a sample', () => {
+		const edges: [string, string][] = [];
+		for (let i = 0; i < 6000; i++) {
+			edges.push([`file${i}.ts`, 'hub.ts']);
+		}
+		const dependents = computeMetrics(graph(edges))['hub.ts'].dependents!;
+
+		assert.ok(Math.abs(dependents - 6000) < 60, String(dependents));
+	});
+});
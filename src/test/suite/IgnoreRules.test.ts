@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { execFileSync, spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IgnoreRules } from '../../IgnoreRules';
+import { ProjectScanner } from '../../ProjectScanner';
+
+suite('IgnoreRules Test Suite', () => {
+	let root: string;
+	let excludesFile: string;
+
+	const write = (relativePath: string, content = '') => {
+		const fullPath = path.join(root, relativePath);
+		fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+		fs.writeFileSync(fullPath, content);
+	};
+
+	// Checks every directory on the way down, as the scanner does
+	const isIgnored = (rules: IgnoreRules, slashPath: string) => {
+		const segments = slashPath.replace(/\/$/, '').split('/');
+		return segments.some((_, i) => {
+			const isDirectory = i < segments.length - 1 || slashPath.endsWith('/');
+			return rules.ignores(segments.slice(0, i + 1).join(path.sep), isDirectory);
+		});
+	};
+
+	const gitIgnored = (paths: string[]) => {
+		const result = spawnSync('git', ['check-ignore', '--no-index', ...paths], { cwd: root, encoding: 'utf-8' });
+		return new Set(result.stdout.split('\n').filter(line => line));
+	};
+
+	setup(() => {
+		root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'constellation-ignore-')));
+		excludesFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'constellation-excludes-')), 'ignore');
+		fs.writeFileSync(excludesFile, '*.swp\n');
+		execFileSync('git', ['init', '-q'], { cwd: root });
+		execFileSync('git', ['config', 'core.excludesFile', excludesFile], { cwd: root });
+		write('.git/info/exclude', 'secret.txt\n');
+		write('.gitignore', '*.log\nbuild/\n/root-only.txt\n!important.log\ndocs/*.md\n');
+		write('packages/app/.gitignore', '!debug.log\ngenerated\n*.tmp\n!keep.tmp\n');
+		write('packages/app/src/.gitignore', '!generated\n');
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+		fs.rmSync(path.dirname(excludesFile), { recursive: true, force: true });
+	});
+
+	test('agrees with git check-ignore on nested, negated and global rules', async () => {
+		const paths = [
+			'app.log', 'important.log', 'build/', 'build/out.js', 'src/build/', 'src/build.js',
+			'root-only.txt', 'packages/app/root-only.txt', 'docs/a.md', 'docs/sub/a.md',
+			'packages/app/debug.log', 'packages/app/other.log', 'packages/app/generated/', 'packages/app/generated/x.ts',
+			'packages/app/src/generated/', 'packages/app/src/generated/x.ts', 'packages/app/a.tmp', 'packages/app/keep.tmp',
+			'packages/other/a.tmp', 'secret.txt', 'packages/secret.txt', 'notes.swp', 'packages/app/main.ts'
+		];
+		const rules = await IgnoreRules.load(root);
+		const expected = gitIgnored(paths);
+
+		assert.ok(expected.size > 0, 'git check-ignore reported nothing');
+		for (const slashPath of paths) {
+			assert.strictEqual(isIgnored(rules, slashPath), expected.has(slashPath), slashPath);
+		}
+	});
+
+	test('applies ignore files above a root inside the repository', async () => {
+		const rules = await IgnoreRules.load(path.join(root, 'packages', 'app'));
+
+		assert.strictEqual(isIgnored(rules, 'other.log'), true);
+		assert.strictEqual(isIgnored(rules, 'debug.log'), false);
+		assert.strictEqual(isIgnored(rules, 'secret.txt'), true);
+		assert.strictEqual(isIgnored(rules, 'src/generated/x.ts'), false);
+	});
+
+	test('lets .ignore files override .gitignore in the same directory', async () => {
+		write('packages/app/.ignore', '!a.tmp\nfixtures/\n');
+		const rules = await IgnoreRules.load(root);
+
+		assert.strictEqual(isIgnored(rules, 'packages/app/a.tmp'), false);
+		assert.strictEqual(isIgnored(rules, 'packages/app/fixtures/'), true);
+	});
+
+	test('leaves out nested ignored files when scanning and rescans when ignore files change', async () => {
+		write('packages/app/src/main.ts', "import '../generated/api';");
+		write('packages/app/generated/api.ts');
+		write('packages/app/src/generated/client.ts');
+		const scanner = new ProjectScanner([{ path: root, name: 'root' }]);
+		const ids = (nodes: { id: string }[]) => nodes.map(n => n.id.split(path.sep).join('/')).sort();
+
+		assert.deepStrictEqual(ids((await scanner.scan()).nodes), ['packages/app/src/generated/client.ts', 'packages/app/src/main.ts']);
+
+		write('packages/app/src/.gitignore', '');
+		const delta = await scanner.update([path.join(root, 'packages/app/src/.gitignore')], []);
+		assert.deepStrictEqual(delta.removedNodes.map(id => id.split(path.sep).join('/')), ['packages/app/src/generated/client.ts']);
+	});
+});
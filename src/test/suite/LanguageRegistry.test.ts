@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LanguageRegistry, byExtension } from '../../LanguageRegistry';
+import { ProjectScanner } from '../../ProjectScanner';
+import { ScanCache } from '../../ScanCache';
+import { builtinAnalyzers } from '../../languages';
+import { matchImports } from '../../languages/ImportMatching';
+import { LanguageAnalyzer } from '../../types';
+
+const protoAnalyzer: LanguageAnalyzer = {
+	id: 'proto',
+	matches: byExtension('.proto'),
+	extractImports: content => matchImports(content, /^import\s+"([^"]+)";/gm, 'static'),
+	resolve: (specifier, fromFile, context) => {
+		const target = path.resolve(path.dirname(fromFile), specifier);
+		return context.isKnownFile(target) ? [target] : [];
+	}
+};
+
+suite('LanguageRegistry Test Suite', () => {
+	let root: string;
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'constellation-registry-'));
+		fs.writeFileSync(path.join(root, 'api.proto'), 'syntax = "proto3";\nimport "types.proto";\n');
+		fs.writeFileSync(path.join(root, 'types.proto'), 'syntax = "proto3";\n');
+		fs.writeFileSync(path.join(root, 'main.ts'), "import './util';");
+		fs.writeFileSync(path.join(root, 'util.ts'), 'export {};');
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('later analyzers take precedence until disposed', () => {
+		const registry = new LanguageRegistry(builtinAnalyzers);
+		assert.strictEqual(registry.getAnalyzer('a.ts')?.id, 'typescript');
+		assert.strictEqual(registry.getAnalyzer('a.proto'), undefined);
+
+		const override: LanguageAnalyzer = { ...protoAnalyzer, id: 'custom-ts', matches: byExtension('.ts') };
+		const registration = registry.register(override);
+		assert.strictEqual(registry.getAnalyzer('a.ts'), override);
+
+		registration.dispose();
+		assert.strictEqual(registry.getAnalyzer('a.ts')?.id, 'typescript');
+	});
+
+	test('contributed analyzers add files and links to the graph', async () => {
+		const languages = new LanguageRegistry(builtinAnalyzers);
+		languages.register(protoAnalyzer);
+		const data = await new ProjectScanner([{ path: root, name: 'root' }], { languages }).scan();
+
+		assert.deepStrictEqual(data.nodes.map(n => n.id).sort(), ['api.proto', 'main.ts', 'types.proto', 'util.ts']);
+		assert.deepStrictEqual(data.links.map(l => `${l.source} -> ${l.target}`).sort(), ['api.proto -> types.proto', 'main.ts -> util.ts']);
+	});
+
+	test('cached imports are only reused by the analyzer that produced them', async () => {
+		const storage = fs.mkdtempSync(path.join(os.tmpdir(), 'constellation-registry-cache-'));
+		try {
+			const scanRoot = () => ({ path: root, name: 'root', cache: new ScanCache(storage, root) });
+			await new ProjectScanner([scanRoot()], { languages: new LanguageRegistry(builtinAnalyzers) }).scan();
+
+			const languages = new LanguageRegistry(builtinAnalyzers);
+			languages.register({ ...protoAnalyzer, id: 'no-imports', matches: byExtension('.ts'), extractImports: () => [] });
+			const data = await new ProjectScanner([scanRoot()], { languages }).scan();
+			assert.deepStrictEqual(data.links, []);
+		} finally {
+			fs.rmSync(storage, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,200 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectScanner } from '../../ProjectScanner';
+import { parseGoImports } from '../../languages/Go';
+import { parseRustImports } from '../../languages/Rust';
+import { parsePhpImports } from '../../languages/Php';
+import { parseMarkdownLinks } from '../../languages/Web';
+import { parsePythonImports } from '../../languages/Python';
+
+suite('Language Imports Test Suite', () => {
+	let root: string;
+
+	const write = (relativePath: string, content = '') => {
+		const fullPath = path.join(root, relativePath);
+		fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+		fs.writeFileSync(fullPath, content);
+	};
+
+	const scanLinks = async (includeDirs?: string[]) => {
+		const scanner = new ProjectScanner([{ path: root, name: 'root' }], { includeDirs });
+		const data = await scanner.scan();
+		return data.links
+			.map(link => `${link.source} -> ${link.target}`.split(path.sep).join('/'))
+			.sort();
+	};
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'constellation-languages-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('parses grouped Go imports with their positions', () => {
+		const imports = parseGoImports('package main\n\nimport (\n\t"fmt"\n\tu "example.com/app/util"\n)\n');
+		assert.deepStrictEqual(imports.map(i => [i.specifier, i.line, i.column]), [['fmt', 3, 1], ['example.com/app/util', 4, 1]]);
+	});
+
+	test('records where multi-line Python imports end', () => {
+		const imports = parsePythonImports('from .models import (\n    User,\n)\nimport os  # comment\n');
+		assert.deepStrictEqual(imports.map(i => [i.specifier, i.line, i.column, i.endLine, i.endColumn]), [
+			['.models.User', 0, 0, 2, 1],
+			['os', 3, 0, 3, 9]
+		]);
+	});
+
+	test('expands Rust use groups and records mod declarations', () => {
+		const imports = parseRustImports('mod net;\npub use crate::a::{b, c::d as e, self};\nuse std::io;\n');
+		assert.deepStrictEqual(imports.map(i => i.specifier), ['self::net', 'crate::a::b', 'crate::a::c::d', 'crate::a', 'std::io']);
+	});
+
+	test('expands PHP grouped and comma-separated use statements', () => {
+		const imports = parsePhpImports("<?php\nuse App\\Models\\{User, Post as P};\nuse \\App\\A, App\\B;\nrequire_once __DIR__ . '/lib.php';\n");
+		assert.deepStrictEqual(imports.map(i => i.specifier).sort(), ['./lib.php', 'App\\A', 'App\\B', 'App\\Models\\Post', 'App\\Models\\User']);
+	});
+
+	test('ignores Markdown links inside fenced code blocks', () => {
+		const imports = parseMarkdownLinks('[a](a.md)\n```\n[b](b.md)\n```\n[[Note|alias]]\n');
+		assert.deepStrictEqual(imports.map(i => [i.specifier, i.line]), [['a.md', 0], ['[[Note|alias]]', 4]]);
+	});
+
+	test('parses dotted, relative, aliased and parenthesized Python imports', () => {
+		const content = 'import os, app.db.session as s\nfrom . import views\nfrom ..core.models import (\n    User,\n    Post as P,\n)\n    from .x import *\n';
+		const imports = parsePythonImports(content);
+		assert.deepStrictEqual(imports.map(i => [i.specifier, i.line, i.column]), [
+			['os', 0, 0],
+			['app.db.session', 0, 0],
+			['.views', 1, 0],
+			['..core.models.User', 2, 0],
+			['..core.models.Post', 2, 0],
+			['.x', 6, 4]
+		]);
+	});
+
+	test('resolves Python packages, relative imports and src layouts', async () => {
+		write('pyproject.toml', '[tool.setuptools.packages.find]\nwhere = ["src"]\n');
+		write('src/app/__init__.py');
+		write('src/app/main.py', 'from app.db.session import get_session\nfrom . import views\nimport app.models\nimport requests\n');
+		write('src/app/views.py', 'from .models import User\nfrom .. import app\n');
+		write('src/app/models.py');
+		write('src/app/db/__init__.py');
+		write('src/app/db/session.py', 'from ..models import User\nfrom app.db import engine\n');
+		write('tests/test_main.py', 'from app.main import run\n');
+
+		assert.deepStrictEqual(await scanLinks(), [
+			'src/app/db/session.py -> src/app/db/__init__.py',
+			'src/app/db/session.py -> src/app/models.py',
+			'src/app/main.py -> src/app/db/session.py',
+			'src/app/main.py -> src/app/models.py',
+			'src/app/main.py -> src/app/views.py',
+			'src/app/views.py -> src/app/__init__.py',
+			'src/app/views.py -> src/app/models.py',
+			'tests/test_main.py -> src/app/main.py'
+		]);
+	});
+
+	test('resolves Python imports against configured source roots', async () => {
+		write('backend/shop/__init__.py');
+		write('backend/shop/orders.py');
+		write('scripts/report.py', 'from shop.orders import Order\n');
+
+		assert.deepStrictEqual(await scanLinks(), []);
+		const scanner = new ProjectScanner([{ path: root, name: 'root' }], { pythonPaths: ['backend'] });
+		const data = await scanner.scan();
+		assert.deepStrictEqual(data.links.map(l => `${l.source} -> ${l.target}`.split(path.sep).join('/')), ['scripts/report.py -> backend/shop/orders.py']);
+	});
+
+	test('resolves Java classes, static imports and wildcards across source roots', async () => {
+		write('src/main/java/com/acme/App.java', 'package com.acme;\nimport com.acme.util.Strings;\nimport static com.acme.util.Numbers.parse;\nimport com.acme.model.*;\nimport java.util.List;\n');
+		write('src/main/java/com/acme/util/Strings.java', 'package com.acme.util;\n');
+		write('src/main/java/com/acme/util/Numbers.java', 'package com.acme.util;\n');
+		write('src/main/java/com/acme/model/User.java', 'package com.acme.model;\n');
+		write('src/main/java/com/acme/model/Order.java', 'package com.acme.model;\n');
+
+		assert.deepStrictEqual(await scanLinks(), [
+			'src/main/java/com/acme/App.java -> src/main/java/com/acme/model/Order.java',
+			'src/main/java/com/acme/App.java -> src/main/java/com/acme/model/User.java',
+			'src/main/java/com/acme/App.java -> src/main/java/com/acme/util/Numbers.java',
+			'src/main/java/com/acme/App.java -> src/main/java/com/acme/util/Strings.java'
+		]);
+	});
+
+	test('resolves Go imports through the go.mod module path', async () => {
+		write('go.mod', 'module example.com/app\n\ngo 1.21\n');
+		write('main.go', 'package main\n\nimport (\n\t"fmt"\n\t"example.com/app/internal/store"\n)\n');
+		write('internal/store/db.go', 'package store\n');
+		write('internal/store/store.go', 'package store\n');
+		write('internal/store/store_test.go', 'package store\n');
+
+		assert.deepStrictEqual(await scanLinks(), ['main.go -> internal/store/store.go']);
+	});
+
+	test('resolves Rust mod declarations and crate, self and super paths', async () => {
+		write('Cargo.toml', '[package]\nname = "app"\n');
+		write('src/main.rs', 'mod net;\nmod config;\nuse crate::net::http::Client;\n');
+		write('src/config.rs', 'use super::net;\n');
+		write('src/net/mod.rs', 'pub mod http;\n');
+		write('src/net/http.rs', 'use crate::config::Settings;\nuse super::Error;\n');
+
+		assert.deepStrictEqual(await scanLinks(), [
+			'src/config.rs -> src/net/mod.rs',
+			'src/main.rs -> src/config.rs',
+			'src/main.rs -> src/net/http.rs',
+			'src/main.rs -> src/net/mod.rs',
+			'src/net/http.rs -> src/config.rs',
+			'src/net/http.rs -> src/net/mod.rs',
+			'src/net/mod.rs -> src/net/http.rs'
+		]);
+	});
+
+	test('resolves PHP use statements through composer PSR-4 and relative requires', async () => {
+		write('composer.json', '{ "autoload": { "psr-4": { "App\\\\": "src/" } } }');
+		write('public/index.php', "<?php\nrequire __DIR__ . '/../bootstrap.php';\nuse App\\Http\\Controller;\n");
+		write('bootstrap.php', '<?php\n');
+		write('src/Http/Controller.php', '<?php\nnamespace App\\Http;\n');
+
+		assert.deepStrictEqual(await scanLinks(), [
+			'public/index.php -> bootstrap.php',
+			'public/index.php -> src/Http/Controller.php'
+		]);
+	});
+
+	test('resolves C includes next to the file and in include directories', async () => {
+		write('src/main.c', '#include <stdio.h>\n#include "util.h"\n#include <lib/api.h>\n');
+		write('src/util.h', '');
+		write('include/lib/api.h', '');
+
+		assert.deepStrictEqual(await scanLinks(), ['src/main.c -> src/util.h']);
+		assert.deepStrictEqual(await scanLinks(['include']), ['src/main.c -> include/lib/api.h', 'src/main.c -> src/util.h']);
+	});
+
+	test('records the range of the import that created a link', async () => {
+		write('src/main.c', '#include <stdio.h>\n  #include "util.h"\n');
+		write('src/util.h', '');
+
+		const scanner = new ProjectScanner([{ path: root, name: 'root' }]);
+		const [link] = (await scanner.scan()).links;
+		assert.deepStrictEqual([link.line, link.column, link.endLine, link.endColumn], [1, 0, 1, 19]);
+	});
+
+	test('resolves HTML references and Markdown links and wikilinks', async () => {
+		write('index.html', '<link rel="stylesheet" href="css/site.css?v=2"><script src="/js/app.js"></script><script src="https://cdn.example.com/x.js"></script>');
+		write('css/site.css', '');
+		write('js/app.js', '');
+		write('README.md', 'See [the guide](docs/guide.md#setup), [[Glossary]] and [site](https://example.com).\n');
+		write('docs/guide.md', '[Home](../README.md)\n');
+		write('docs/Glossary.md', '');
+
+		assert.deepStrictEqual(await scanLinks(), [
+			'README.md -> docs/Glossary.md',
+			'README.md -> docs/guide.md',
+			'docs/guide.md -> README.md',
+			'index.html -> css/site.css',
+			'index.html -> js/app.js'
+		]);
+	});
+});
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ModuleResolver } from '../../ModuleResolver';
+
+suite('ModuleResolver Test Suite', () => {
+	let root: string;
+	let files: Set<string>;
+
+	const write = (relativePath: string, content = '') => {
+		const fullPath = path.join(root, relativePath);
+		fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+		fs.writeFileSync(fullPath, content);
+		files.add(relativePath);
+	};
+
+	const createResolver = () => {
+		const resolver = new ModuleResolver([root], p => files.has(path.relative(root, p)));
+		for (const file of files) {
+			if (path.basename(file) === 'package.json') {
+				resolver.registerPackage(path.join(root, file), fs.readFileSync(path.join(root, file), 'utf-8'));
+			}
+		}
+		return resolver;
+	};
+
+	const resolve = (resolver: ModuleResolver, specifier: string, from: string) => {
+		const resolved = resolver.resolve(specifier, from);
+		return resolved && path.relative(root, resolved);
+	};
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'constellation-resolver-'));
+		files = new Set();
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('resolves relative imports with implicit extensions and index files', () => {
+		write('src/a.ts');
+		write('src/lib/index.ts');
+		write('src/util.ts');
+		const resolver = createResolver();
+		const from = path.join(root, 'src/a.ts');
+
+		assert.strictEqual(resolve(resolver, './lib', from), path.join('src', 'lib', 'index.ts'));
+		assert.strictEqual(resolve(resolver, './util.js', from), path.join('src', 'util.ts'));
+		assert.strictEqual(resolve(resolver, './missing', from), undefined);
+	});
+
+	test('honors paths wildcards and baseUrl through an extends chain', () => {
+		write('tsconfig.base.json', '{ "compilerOptions": { "baseUrl": ".", "paths": { "@/*": ["src/*"], "~app/*": ["app/*"] } } }');
+		write('packages/web/tsconfig.json', '{\n  // comments are allowed\n  "extends": "../../tsconfig.base.json"\n}');
+		write('src/components/Button.tsx');
+		write('app/utils/index.ts');
+		write('shared/format.ts');
+		write('packages/web/main.ts');
+		const resolver = createResolver();
+		const from = path.join(root, 'packages/web/main.ts');
+
+		assert.strictEqual(resolve(resolver, '@/components/Button', from), path.join('src', 'components', 'Button.tsx'));
+		assert.strictEqual(resolve(resolver, '~app/utils', from), path.join('app', 'utils', 'index.ts'));
+		assert.strictEqual(resolve(resolver, 'shared/format', from), path.join('shared', 'format.ts'));
+	});
+
+	test('uses the nearest config for each folder', () => {
+		write('tsconfig.json', '{ "compilerOptions": { "paths": { "@/*": ["src/*"] } } }');
+		write('tools/jsconfig.json', '{ "compilerOptions": { "paths": { "@/*": ["scripts/*"] } } }');
+		write('src/x.ts');
+		write('tools/scripts/x.js');
+		write('tools/run.js');
+		write('src/main.ts');
+		const resolver = createResolver();
+
+		assert.strictEqual(resolve(resolver, '@/x', path.join(root, 'src/main.ts')), path.join('src', 'x.ts'));
+		assert.strictEqual(resolve(resolver, '@/x', path.join(root, 'tools/run.js')), path.join('tools', 'scripts', 'x.js'));
+	});
+
+	test('ignores config fields of the wrong type', () => {
+		write('tsconfig.json', '{ "compilerOptions": "strict" }');
+		write('web/tsconfig.json', '{ "compilerOptions": { "baseUrl": 1, "paths": ["src/*"] } }');
+		write('lib/tsconfig.json', '{ "compilerOptions": { "paths": { "@/*": "src/*", "~/*": ["src/*"] } } }');
+		write('src/x.ts');
+		write('main.ts');
+		write('web/main.ts');
+		write('lib/main.ts');
+		write('lib/src/x.ts');
+		const resolver = createResolver();
+
+		assert.strictEqual(resolve(resolver, '@/x', path.join(root, 'main.ts')), undefined);
+		assert.strictEqual(resolve(resolver, '@/x', path.join(root, 'web/main.ts')), undefined);
+		assert.strictEqual(resolve(resolver, '@/x', path.join(root, 'lib/main.ts')), undefined);
+		assert.strictEqual(resolve(resolver, '~/x', path.join(root, 'lib/main.ts')), path.join('lib', 'src', 'x.ts'));
+	});
+
+	test('resolves workspace packages through exports and main', () => {
+		write('packages/core/package.json', '{ "name": "@acme/core", "exports": { ".": { "import": "./src/index.ts" }, "./utils/*": "./src/utils/*.ts" } }');
+		write('packages/core/src/index.ts');
+		write('packages/core/src/utils/strings.ts');
+		write('packages/legacy/package.json', JSON.stringify({ name: 'legacy', main: 'lib/main.js' }));
+		write('packages/legacy/lib/main.js');
+		write('apps/site/index.ts');
+		const resolver = createResolver();
+		const from = path.join(root, 'apps/site/index.ts');
+
+		assert.strictEqual(resolve(resolver, '@acme/core', from), path.join('packages', 'core', 'src', 'index.ts'));
+		assert.strictEqual(resolve(resolver, '@acme/core/utils/strings', from), path.join('packages', 'core', 'src', 'utils', 'strings.ts'));
+		assert.strictEqual(resolve(resolver, 'legacy', from), path.join('packages', 'legacy', 'lib', 'main.js'));
+		assert.strictEqual(resolve(resolver, 'react', from), undefined);
+	});
+});
@@ -0,0 +1,182 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectScanner, ScanOptions, ScanProgress } from '../../ProjectScanner';
+import { GraphDelta, Link } from '../../types';
+
+suite('ProjectScanner Test Suite', () => {
+	let root: string;
+
+	const write = (relativePath: string, content = '') => {
+		const fullPath = path.join(root, relativePath);
+		fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+		fs.writeFileSync(fullPath, content);
+	};
+
+	const scan = (options?: ScanOptions) => new ProjectScanner([{ path: root, name: 'root' }], options);
+
+	const scanIds = async (options?: ScanOptions) => {
+		const data = await scan(options).scan();
+		return data.nodes.map(node => node.id.split(path.sep).join('/')).sort();
+	};
+
+	const summarize = (delta: GraphDelta) => {
+		const slashes = (id: string) => id.split(path.sep).join('/');
+		const links = (list: Link[]) => list.map(link => slashes(`${link.source} -> ${link.target}`)).sort();
+		return {
+			added: delta.addedNodes.map(node => slashes(node.id)).sort(),
+			updated: delta.updatedNodes.map(node => slashes(node.id)).sort(),
+			removed: delta.removedNodes.map(slashes).sort(),
+			addedLinks: links(delta.addedLinks),
+			removedLinks: links(delta.removedLinks)
+		};
+	};
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'constellation-scanner-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('skips hidden entries and build folders by default', async () => {
+		write('src/main.ts');
+		write('.github/script.js');
+		write('node_modules/lib/index.js');
+		write('packages/app/dist/bundle.js');
+
+		assert.deepStrictEqual(await scanIds(), ['src/main.ts']);
+	});
+
+	test('applies include and exclude globs', async () => {
+		write('src/main.ts');
+		write('src/main.test.ts');
+		write('src/generated/api.ts');
+		write('scripts/build.js');
+		write('dist/bundle.js');
+
+		assert.deepStrictEqual(await scanIds({ include: ['src/**'], exclude: ['**/*.test.ts', 'src/generated'] }), ['src/main.ts']);
+		assert.deepStrictEqual(await scanIds({ exclude: [] }), ['dist/bundle.js', 'scripts/build.js', 'src/generated/api.ts', 'src/main.test.ts', 'src/main.ts']);
+	});
+
+	test('shows extra file types as nodes without imports', async () => {
+		write('schema.sql', '-- import "./other.sql"');
+		write('Dockerfile');
+		write('notes.txt');
+
+		assert.deepStrictEqual(await scanIds(), []);
+		assert.deepStrictEqual(await scanIds({ extraFileTypes: ['.SQL', 'Dockerfile'] }), ['Dockerfile', 'schema.sql']);
+	});
+
+	test('leaves out large files and stops at the node limit', async () => {
+		write('a.ts', 'x'.repeat(100));
+		write('b.ts');
+		write('c.ts');
+
+		assert.deepStrictEqual(await scanIds({ maxFileSize: 50 }), ['b.ts', 'c.ts']);
+
+		const scanner = scan({ maxNodes: 2 });
+		assert.strictEqual((await scanner.scan()).nodes.length, 2);
+		assert.strictEqual(scanner.isTruncated(), true);
+		assert.strictEqual((await scan({ maxNodes: 3 }).scan()).nodes.length, 3);
+	});
+
+	test('cuts previews to the configured line count', async () => {
+		write('main.ts', '1\n2\n3\n4\n');
+
+		const [node] = (await scan({ previewLines: 2 }).scan()).nodes;
+		assert.strictEqual(node.preview, '1\n2');
+		const [withoutPreview] = (await scan({ previewLines: 0 }).scan()).nodes;
+		assert.strictEqual(withoutPreview.preview, '');
+	});
+
+	test('reports progress and streams nodes in batches', async () => {
+		for (let i = 0; i < 300; i++) {
+			write(`src/file${i}.ts`, i > 0 ? `import './file${i - 1}';` : '');
+		}
+		const progress: ScanProgress[] = [];
+		const batches: number[] = [];
+
+		const data = await scan().scan({
+			onProgress: p => progress.push(p),
+			onBatch: batch => {
+				assert.deepStrictEqual(batch.links, []);
+				batches.push(batch.nodes.length);
+			}
+		});
+
+		assert.strictEqual(data.links.length, 299);
+		assert.strictEqual(batches.reduce((a, b) => a + b, 0), 300);
+		assert.ok(batches.length > 1);
+		assert.deepStrictEqual(progress[progress.length - 1], { discovered: 300, processed: 300 });
+		assert.ok(progress.some(p => p.processed > 0 && p.processed < 300));
+	});
+
+	test('stops reading when cancelled and returns the files read so far', async () => {
+		for (let i = 0; i < 200; i++) {
+			write(`file${i}.ts`);
+		}
+		let processed = 0;
+		const scanner = scan();
+
+		const data = await scanner.scan({ isCancelled: () => processed >= 50, onProgress: p => processed = p.processed });
+		assert.ok(data.nodes.length > 0 && data.nodes.length < 200, String(data.nodes.length));
+		assert.strictEqual(scanner.isTruncated(), true);
+	});
+
+	test('can disregard .gitignore', async () => {
+		write('.gitignore', 'generated/\n');
+		write('generated/api.ts');
+		write('main.ts');
+
+		assert.deepStrictEqual(await scanIds(), ['main.ts']);
+		assert.deepStrictEqual(await scanIds({ respectGitignore: false }), ['generated/api.ts', 'main.ts']);
+	});
+
+	test('updates changed and deleted files', async () => {
+		write('app.ts', "import './a';");
+		write('a.ts', "import './b';");
+		write('b.ts');
+		write('c.ts');
+		const scanner = scan();
+		await scanner.scan();
+
+		write('a.ts', "import './c';");
+		assert.deepStrictEqual(summarize(await scanner.update([path.join(root, 'a.ts')], [])), {
+			added: [], updated: ['a.ts'], removed: [], addedLinks: ['a.ts -> c.ts'], removedLinks: ['a.ts -> b.ts']
+		});
+
+		fs.rmSync(path.join(root, 'a.ts'));
+		assert.deepStrictEqual(summarize(await scanner.update([], [path.join(root, 'a.ts')])), {
+			added: [], updated: [], removed: ['a.ts'], addedLinks: [], removedLinks: ['a.ts -> c.ts', 'app.ts -> a.ts']
+		});
+	});
+
+	test('links new files to the imports that were waiting for them', async () => {
+		write('app.ts', "import './later';");
+		const scanner = scan();
+		await scanner.scan();
+
+		write('later.ts', "import './app';");
+		assert.deepStrictEqual(summarize(await scanner.update([path.join(root, 'later.ts')], [])), {
+			added: ['later.ts'], updated: [], removed: [], addedLinks: ['app.ts -> later.ts', 'later.ts -> app.ts'], removedLinks: []
+		});
+	});
+
+	test('moves links along with renamed files', async () => {
+		write('app.ts', "import './util';");
+		write('util.ts');
+		const scanner = scan();
+		await scanner.scan();
+
+		// A rename arrives as a deletion of the old path and a creation of the new one
+		fs.mkdirSync(path.join(root, 'lib'));
+		fs.renameSync(path.join(root, 'util.ts'), path.join(root, 'lib', 'util.ts'));
+		write('app.ts', "import './lib/util';");
+		assert.deepStrictEqual(summarize(await scanner.update([path.join(root, 'lib', 'util.ts'), path.join(root, 'app.ts')], [path.join(root, 'util.ts')])), {
+			added: ['lib/util.ts'], updated: ['app.ts'], removed: ['util.ts'], addedLinks: ['app.ts -> lib/util.ts'], removedLinks: ['app.ts -> util.ts']
+		});
+	});
+});
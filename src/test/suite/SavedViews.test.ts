@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadViewFiles, viewFileName, viewsFolder, writeViewFile } from '../../SavedViews';
+import { SavedView } from '../../types';
+
+const id = (relativePath: string) => relativePath.split('/').join(path.sep);
+
+suite('SavedViews Test Suite', () => {
+	let root: string;
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'constellation-views-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('writes views with slash ids and reads them back sorted by name', () => {
+		const view: SavedView = {
+			name: 'Payment Flow',
+			positions: { [id('src/pay.ts')]: [10, -20, 1], [id('src/db.ts')]: [0, 5] },
+			zoom: { k: 2, x: 10, y: 0 },
+			filters: { hiddenLinkKinds: ['type'], focusDepth: { up: 2, down: null } },
+			highlighted: [id('src/pay.ts')]
+		};
+		const filePath = writeViewFile(root, view);
+		writeViewFile(root, { name: 'Overview', positions: {} });
+
+		assert.strictEqual(filePath, path.join(root, viewsFolder, 'payment-flow.json'));
+		const written = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+		assert.deepStrictEqual(Object.keys(written.positions), ['src/pay.ts', 'src/db.ts']);
+		assert.deepStrictEqual(written.highlighted, ['src/pay.ts']);
+
+		const files = loadViewFiles([root]);
+		assert.deepStrictEqual(files.map(file => file.view.name), ['Overview', 'Payment Flow']);
+		assert.deepStrictEqual(files[1].view, view);
+	});
+
+	test('skips and reports files that are not views', () => {
+		writeViewFile(root, { name: 'good', positions: {} });
+		fs.writeFileSync(path.join(root, viewsFolder, 'broken.json'), '{ "name": ');
+		fs.writeFileSync(path.join(root, viewsFolder, 'nameless.json'), '{ "positions": {} }');
+		fs.writeFileSync(path.join(root, viewsFolder, 'notes.txt'), 'not a view');
+		const errors: string[] = [];
+
+		const files = loadViewFiles([root, path.join(root, 'missing')], error => errors.push(error.message));
+
+		assert.deepStrictEqual(files.map(file => file.view.name), ['good']);
+		assert.strictEqual(errors.length, 2);
+		assert.ok(errors[0].startsWith(path.join(root, viewsFolder, 'broken.json') + ': '), errors[0]);
+		assert.ok(errors[1].endsWith('nameless.json: expected an object with a "name" and "positions"'), errors[1]);
+	});
+
+	test('numbers the files of views whose names give the same file name', () => {
+		const first = writeViewFile(root, { name: 'API', positions: {} });
+		const second = writeViewFile(root, { name: 'api', positions: {} });
+		const replaced = writeViewFile(root, { name: 'api', positions: { [id('src/api.ts')]: [1, 2] } });
+
+		assert.strictEqual(first, path.join(root, viewsFolder, 'api.json'));
+		assert.strictEqual(second, path.join(root, viewsFolder, 'api-2.json'));
+		assert.strictEqual(replaced, second);
+		const files = loadViewFiles([root]);
+		assert.strictEqual(files.length, 2);
+		assert.strictEqual(files.find(file => file.filePath === first)?.view.name, 'API');
+		assert.deepStrictEqual(files.find(file => file.filePath === second)?.view.positions, { [id('src/api.ts')]: [1, 2] });
+	});
+
+	test('names files after the view', () => {
+		assert.strictEqual(viewFileName('Payment Flow (v2)'), 'payment-flow-v2.json');
+		assert.strictEqual(viewFileName('Übersicht'), 'übersicht.json');
+		assert.strictEqual(viewFileName('???'), 'view.json');
+	});
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScanCache } from '../../ScanCache';
+import { ProjectScanner } from '../../ProjectScanner';
+
+suite('ScanCache Test Suite', () => {
+	let root: string;
+	let storage: string;
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'constellation-cache-root-'));
+		storage = fs.mkdtempSync(path.join(os.tmpdir(), 'constellation-cache-storage-'));
+		fs.writeFileSync(path.join(root, 'a.ts'), "import './b';");
+		fs.writeFileSync(path.join(root, 'b.ts'), 'export {};');
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+		fs.rmSync(storage, { recursive: true, force: true });
+	});
+
+	test('persists parse results and reuses them for unchanged files', async () => {
+		const first = await new ProjectScanner(root, new ScanCache(storage, root)).scan();
+		assert.strictEqual(first.links.length, 1);
+
+		const cache = new ScanCache(storage, root);
+		await cache.load();
+		const stats = fs.statSync(path.join(root, 'a.ts'));
+		const entry = cache.lookup('a.ts', stats);
+		assert.ok(entry);
+		assert.deepStrictEqual(entry.imports.map(i => i.specifier), ['./b']);
+
+		const second = await new ProjectScanner(root, new ScanCache(storage, root)).scan();
+		assert.deepStrictEqual(second, first);
+	});
+
+	test('misses on changed files and drops entries of deleted ones', async () => {
+		await new ProjectScanner(root, new ScanCache(storage, root)).scan();
+		fs.writeFileSync(path.join(root, 'a.ts'), "import './b';\nimport './c';");
+		fs.rmSync(path.join(root, 'b.ts'));
+
+		const cache = new ScanCache(storage, root);
+		await cache.load();
+		assert.strictEqual(cache.lookup('a.ts', fs.statSync(path.join(root, 'a.ts'))), undefined);
+
+		await new ProjectScanner(root, cache).scan();
+		await cache.load();
+		assert.strictEqual(cache.lookupByHash('b.ts', ScanCache.hash('export {};')), undefined);
+		assert.ok(cache.lookup('a.ts', fs.statSync(path.join(root, 'a.ts'))));
+	});
+
+	test('keeps the entries of every scanner sharing the cache', async () => {
+		const cache = new ScanCache(storage, root);
+		await Promise.all([new ProjectScanner(root, cache).scan(), new ProjectScanner(root, cache).scan()]);
+		fs.writeFileSync(path.join(root, 'c.ts'), "import './a';");
+		const scanner = new ProjectScanner(root, cache);
+		await scanner.scan();
+		await Promise.all([scanner.update([path.join(root, 'c.ts')], []), new ProjectScanner(root, cache).scan()]);
+
+		const reloaded = new ScanCache(storage, root);
+		await reloaded.load();
+		for (const name of ['a.ts', 'b.ts', 'c.ts']) {
+			assert.ok(reloaded.lookup(name, fs.statSync(path.join(root, name))), name);
+		}
+	});
+
+	test('clearAll removes the cache files and clear empties a cache in use', async () => {
+		const cache = new ScanCache(storage, root);
+		await new ProjectScanner(root, cache).scan();
+		assert.strictEqual(await ScanCache.clearAll(storage), 1);
+		assert.deepStrictEqual(fs.readdirSync(storage), []);
+
+		cache.clear();
+		await cache.load();
+		assert.strictEqual(cache.lookup('a.ts', fs.statSync(path.join(root, 'a.ts'))), undefined);
+	});
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { parseTypeScriptImports } from '../../TypeScriptImportParser';
+
+suite('TypeScriptImportParser Test Suite', () => {
+	const kinds = (content: string, fileName = 'file.ts') =>
+		parseTypeScriptImports(content, fileName).map(i => i.kind + ' ' + i.specifier);
+
+	test('reports every import form with its kind', () => {
+		const source = [
+			"import React from 'react';",
+			"import './polyfill';",
+			"import type { User } from './models';",
+			"import { type A, type B } from './types';",
+			"import {",
+			"    one,",
+			"    two",
+			"} from './numbers';",
+			"export * from './all';",
+			"export { x } from './x';",
+			"export type { Y } from './y';",
+			"import fs = require('fs');",
+			"const lazy = import('./lazy');",
+			"const cfg = require('./config');",
+			"type T = import('./typed').T;"
+		].join('\n');
+
+		assert.deepStrictEqual(kinds(source), [
+			'static react',
+			'static ./polyfill',
+			'type ./models',
+			'type ./types',
+			'static ./numbers',
+			'reexport ./all',
+			'reexport ./x',
+			'type ./y',
+			'require fs',
+			'dynamic ./lazy',
+			'require ./config',
+			'type ./typed'
+		]);
+	});
+
+	test('ignores imports inside comments and strings', () => {
+		const source = [
+			"// import a from './commented';",
+			"/* require('./block') */",
+			"const s = `import b from './template'`;",
+			"const t = \"require('./string')\";"
+		].join('\n');
+
+		assert.deepStrictEqual(kinds(source), []);
+	});
+
+	test('parses JSX and records zero-based positions', () => {
+		const source = "const x = 1;\nimport Button from './Button';\nexport const App = () => <Button />;";
+		const [ref] = parseTypeScriptImports(source, 'App.jsx');
+
+		assert.strictEqual(ref.specifier, './Button');
+		assert.strictEqual(ref.line, 1);
+		assert.strictEqual(ref.column, 19);
+		assert.strictEqual(ref.endLine, 1);
+		assert.strictEqual(ref.endColumn, 29);
+	});
+});
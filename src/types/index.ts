@@ -4,6 +4,10 @@ export interface Node {
     type: string;
     size: number;
     preview: string;
+    /** Name of the workspace folder the file belongs to. */
+    root?: string;
+    /** Number of files inside, for folder nodes of the folder view (`type` is `folder`). */
+    fileCount?: number;
     x?: number;
     y?: number;
     fx?: number | null;
@@ -12,12 +16,237 @@ export interface Node {
     vy?: number;
 }
 
+/**
+ * A dependency between two files. When a file imports the same target
+ * several times, `kind` is the strongest of those imports (runtime kinds
+ * win over `type`) and `weight` counts them. `line` and `column` locate
+ * the first of those imports in the source file and `endLine` and
+ * `endColumn` where it ends (zero-based).
+ */
 export interface Link {
     source: string | Node;
     target: string | Node;
+    kind: ImportKind;
+    weight: number;
+    line?: number;
+    column?: number;
+    endLine?: number;
+    endColumn?: number;
 }
 
 export interface GraphData {
     nodes: Node[];
     links: Link[];
 }
+
+/**
+ * The difference between two scans, used to patch the graph in place.
+ * Links are identified by their source and target ids; an added link whose
+ * ids already exist replaces the old one.
+ */
+export interface GraphDelta {
+    addedNodes: Node[];
+    updatedNodes: Node[];
+    removedNodes: string[];
+    addedLinks: Link[];
+    removedLinks: Link[];
+}
+
+/**
+ * What the webview currently hides. Exports apply the same filters so the
+ * file matches what is on screen.
+ */
+export interface GraphFilters {
+    hiddenLinkKinds?: ImportKind[];
+    /** The only nodes shown, e.g. by the git diff view. Undefined shows every node. */
+    visibleNodeIds?: string[];
+}
+
+/**
+ * A named arrangement of the graph, restored from the toolbar. Views are
+ * kept in workspace state or committed as `.constellation/views/*.json`.
+ */
+export interface SavedView {
+    name: string;
+    /** Node positions by id: `[x, y]`, or `[x, y, 1]` for a pinned node. */
+    positions: Record<string, number[]>;
+    /** Zoom factor and the graph coordinates shown in the middle of the screen. */
+    zoom?: { k: number; x: number; y: number };
+    filters?: ViewFilters;
+    /** Ids of the nodes the view marks. */
+    highlighted?: string[];
+}
+
+/**
+ * The display choices a view restores, besides the hidden link kinds.
+ */
+export interface ViewFilters extends GraphFilters {
+    /** Levels traced around the focused node; null traces every level. */
+    focusDepth?: { up: number | null; down: number | null };
+    colorMode?: string;
+    sizeMetric?: string;
+    colorMetric?: string;
+}
+
+/**
+ * A strongly connected component of the import graph: every file in
+ * `nodes` can reach every other one. `links` are the edges inside it.
+ */
+export interface Cycle {
+    nodes: string[];
+    links: Link[];
+}
+
+/**
+ * Structural metrics of one node. `dependents` counts every node that
+ * reaches it through imports, directly or not. `betweenness` is the share
+ * of shortest paths between other nodes that pass through it (0 to 1).
+ * Both are only present when the metrics were computed in detail.
+ * An `orphan` is imported by nothing and does not look like an entry point.
+ */
+export interface NodeMetrics {
+    inDegree: number;
+    outDegree: number;
+    dependents?: number;
+    betweenness?: number;
+    orphan: boolean;
+}
+
+/**
+ * What git knows about one file. `churn` counts the commits touching it in
+ * the chosen window; `changedOnBranch` is set for files the current branch
+ * changed since it forked from the base branch.
+ */
+export interface GitFileInfo {
+    churn: number;
+    changedOnBranch: boolean;
+    changedInWorkingTree: boolean;
+    lastAuthor?: string;
+    /** ISO 8601 date of the last commit touching the file. */
+    lastDate?: string;
+}
+
+/**
+ * Git information for the files of a graph, keyed by node id. `baseRef` is
+ * the branch the current one was compared with, if one was found.
+ */
+export interface GitOverlay {
+    baseRef?: string;
+    files: Record<string, GitFileInfo>;
+}
+
+/**
+ * One entry of the `rules` list in `.constellation.json`. Files matching
+ * `from` may not import files matching `deny`, and when `allow` is given
+ * they may only import files matching it. Patterns are globs over node ids
+ * with forward slashes.
+ */
+export interface ArchitectureRule {
+    name?: string;
+    from: string | string[];
+    allow?: string[];
+    deny?: string[];
+    message?: string;
+    severity?: 'error' | 'warning';
+}
+
+/**
+ * Contents of `.constellation.json`. `internal` lists directory names whose
+ * files may only be imported from inside the directory's parent, like Go's
+ * `internal/` packages.
+ */
+export interface RulesConfig {
+    rules?: ArchitectureRule[];
+    internal?: string[];
+}
+
+/**
+ * A link that breaks an architecture rule.
+ */
+export interface RuleViolation {
+    source: string;
+    target: string;
+    rule: string;
+    message: string;
+    severity: 'error' | 'warning';
+    line?: number;
+    column?: number;
+    endLine?: number;
+    endColumn?: number;
+}
+
+/**
+ * How a file refers to another one. `asset` covers non-code references
+ * such as CSS `url()`.
+ */
+export type ImportKind = 'static' | 'reexport' | 'require' | 'dynamic' | 'asset' | 'type';
+
+/**
+ * A single import found in a source file, before resolution.
+ * `line` and `column` are zero-based and mark where the import starts;
+ * `endLine` and `endColumn` mark where it ends, when the analyzer knows.
+ */
+export interface ImportReference {
+    specifier: string;
+    kind: ImportKind;
+    line: number;
+    column: number;
+    endLine?: number;
+    endColumn?: number;
+}
+
+/**
+ * What a language analyzer may ask about the project while resolving an
+ * import. Paths are absolute.
+ */
+export interface ResolveContext {
+    /** The scanned folders. */
+    readonly roots: string[];
+    /** Directories configured for C/C++ `#include` lookups. */
+    readonly includeDirs: string[];
+    /** Extra Python source roots, like PYTHONPATH. */
+    readonly pythonPaths: string[];
+    /** True when a path is a node of the graph. */
+    isKnownFile(fullPath: string): boolean;
+    /** Scanned files directly inside a directory. */
+    inDirectory(dir: string): string[];
+    /** Scanned files with the given file name, anywhere in the roots. */
+    named(fileName: string): string[];
+    /** Directories holding scanned files whose path ends with `suffix`. */
+    directoriesEndingWith(suffix: string): string[];
+    /** The innermost scanned root containing a path. */
+    findRoot(fullPath: string): string | undefined;
+    /** The nearest file called `fileName` in the directories above `fromFile`, up to its root. */
+    findUp(fromFile: string, fileName: string): string | undefined;
+    /** Reads and parses a file once per scan; undefined when it cannot be read or parsed. */
+    readConfig<T>(fullPath: string, parse: (content: string) => T): T | undefined;
+    /** Node/TypeScript module resolution, including tsconfig `paths` and workspace packages. */
+    resolveModule(specifier: string, fromFile: string): string | undefined;
+}
+
+/**
+ * Teaches the scanner a language. Files matched by an analyzer become graph
+ * nodes; their imports are extracted while scanning and resolved once every
+ * file is known.
+ */
+export interface LanguageAnalyzer {
+    /** Unique id. Parse results cached for a file are only reused by the same analyzer. */
+    id: string;
+    /** Returns true for file names (e.g. `schema.proto`) this analyzer handles. */
+    matches(fileName: string): boolean;
+    /** Finds the imports in a file. Specifiers are kept as written. */
+    extractImports(content: string, filePath: string): ImportReference[];
+    /** Maps an import to the absolute paths of the files it refers to. */
+    resolve(specifier: string, fromFile: string, context: ResolveContext): string[];
+}
+
+/**
+ * The API returned by the extension's `activate`, for other extensions.
+ */
+export interface CodeConstellationApi {
+    /**
+     * Adds an analyzer. It takes precedence over earlier ones for the files it
+     * matches, and an open graph is rescanned.
+     */
+    registerLanguageAnalyzer(analyzer: LanguageAnalyzer): { dispose(): void };
+}